@@ -0,0 +1,85 @@
+import { performance } from 'node:perf_hooks';
+import process from 'node:process';
+import {
+  clearSchemaCache,
+  compile,
+  getProgram,
+  getTypeSymbols,
+  type CompileOptions,
+} from '../src/index';
+
+/**
+ * Generate a module of interconnected interfaces, each referencing a few
+ * others with documented and constrained properties
+ */
+function generateFixture(count: number): string {
+  const declarations: string[] = [];
+  for (let i = 0; i < count; i++) {
+    declarations.push(`
+      /** Entity ${i} */
+      export interface Entity${i} {
+        /** Identifier @format uuid */
+        id: string;
+        /** @minimum 0 @maximum 100 */
+        score: number;
+        status: 'active' | 'archived';
+        parent?: Entity${Math.floor(i / 2)};
+        related: Entity${(i * 7 + 3) % count}[];
+        meta: { createdAt: string; tags: Tag${i % 10}[] };
+      }
+    `);
+  }
+  for (let i = 0; i < 10; i++) {
+    declarations.push(
+      `/** Tag ${i} */ export type Tag${i} = { name: string };`
+    );
+  }
+  return declarations.join('\n');
+}
+
+/**
+ * Compile every exported type separately, as the command-line interface does,
+ * and return the elapsed milliseconds with the schemas
+ */
+function compileAll(
+  source: string,
+  options: CompileOptions,
+  cached: boolean
+): { ms: number; output: string } {
+  const { program, fileName } = getProgram({ source });
+  const typeChecker = program.getTypeChecker();
+  const symbols = getTypeSymbols(program.getSourceFile(fileName)!, typeChecker);
+  clearSchemaCache(typeChecker);
+
+  const schemas: unknown[] = [];
+  const start = performance.now();
+  for (const symbol of symbols.values()) {
+    if (!cached) {
+      clearSchemaCache(typeChecker);
+    }
+    const type = typeChecker.getDeclaredTypeOfSymbol(symbol);
+    schemas.push(compile(type, typeChecker, options));
+  }
+  const ms = performance.now() - start;
+  return { ms, output: JSON.stringify(schemas) };
+}
+
+const count = Number(process.argv[2] ?? 300);
+const source = generateFixture(count);
+const options: CompileOptions = { useReferences: true };
+
+// Warm up the program and the checker's own type caches
+compileAll(source, options, true);
+
+const uncached = compileAll(source, options, false);
+const cached = compileAll(source, options, true);
+if (cached.output !== uncached.output) {
+  throw new Error('Cached compilation produced different schemas');
+}
+
+process.stdout.write(
+  `${count} interfaces compiled one by one with useReferences\n` +
+    `  without cache: ${uncached.ms.toFixed(0)} ms\n` +
+    `  with cache:    ${cached.ms.toFixed(0)} ms\n` +
+    `  speedup:       ${(uncached.ms / cached.ms).toFixed(1)}x\n`
+);
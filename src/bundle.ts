@@ -0,0 +1,121 @@
+import ts from 'typescript';
+import {
+  compileAt,
+  createContext,
+  escapePointer,
+  finishSchema,
+  getDefinitionsPath,
+  getTypeDeclaration,
+  reportNameCollision,
+} from './compiler';
+import { getProgram, getTypeSymbols, isGenericDeclaration } from './program';
+import type { CompileTypeOptions, TypeSource } from './program';
+import type { CompileOptions, JSONSchema } from './types';
+
+/**
+ * Compare strings by code unit, independent of the current locale
+ */
+function compareKeys(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Compile several types into one document whose definitions container holds
+ * every type under its given name, plus the named types they reference.
+ * Definitions are sorted by key, and two different types claiming the same
+ * key report a `name-collision` diagnostic, so the output does not depend on
+ * the order types are listed or referenced. With `nameCollisions: 'suffix'`
+ * the later key gets a `_2`, `_3`, … suffix instead.
+ */
+export function compileBundle(
+  types: ReadonlyMap<string, ts.Type>,
+  typeChecker: ts.TypeChecker,
+  options: CompileOptions = {}
+): JSONSchema {
+  const ctx = createContext(typeChecker, {
+    nameCollisions: 'error',
+    ...options,
+    useReferences: true,
+  });
+  const definitionsPath = getDefinitionsPath(options.target);
+
+  for (const [name, type] of [...types].sort(([a], [b]) => compareKeys(a, b))) {
+    const schema = compileAt(
+      type,
+      ctx,
+      [...definitionsPath, escapePointer(name)],
+      options.ignoreUndefinedInUnion,
+      getTypeDeclaration(type)
+    );
+    // Named types are already hoisted under their own name
+    if (ctx.definitionNames.get(type) === name) {
+      continue;
+    }
+    if (!ctx.definitions.has(name)) {
+      ctx.definitions.set(name, schema);
+      continue;
+    }
+    if (ctx.options.nameCollisions !== 'suffix') {
+      ctx.path = [...definitionsPath, escapePointer(name)];
+      reportNameCollision(type, name, ctx);
+      ctx.path = [];
+      continue;
+    }
+    // Named types were hoisted under a suffixed key already
+    const hoisted = ctx.definitionNames.get(type);
+    if (hoisted?.startsWith(`${name}_`)) {
+      continue;
+    }
+    let key = name;
+    for (let i = 2; ctx.definitions.has(key); i++) {
+      key = `${name}_${i}`;
+    }
+    if (hoisted === undefined) {
+      ctx.definitionNames.set(type, key);
+    }
+    ctx.definitions.set(key, schema);
+  }
+
+  ctx.definitions = new Map(
+    [...ctx.definitions].sort(([a], [b]) => compareKeys(a, b))
+  );
+  return finishSchema({}, ctx);
+}
+
+/**
+ * Compile the given types of a file or in-memory source into one bundle,
+ * or all of its exported types when typeNames is omitted. Generic
+ * declarations are skipped then, their instantiations are hoisted where used.
+ */
+export function bundleTypes(
+  input: TypeSource,
+  typeNames?: readonly string[],
+  options: CompileTypeOptions = {}
+): JSONSchema {
+  const { compilerOptions, ...compileOptions } = options;
+  const { program, fileName } = getProgram(input, compilerOptions);
+  const sourceFile = program.getSourceFile(fileName);
+  if (!sourceFile) {
+    throw new Error(`Cannot read source file: ${fileName}`);
+  }
+
+  const typeChecker = program.getTypeChecker();
+  const symbols = getTypeSymbols(sourceFile, typeChecker, !typeNames);
+  const types = new Map<string, ts.Type>();
+  for (const name of typeNames ?? symbols.keys()) {
+    const symbol = symbols.get(name);
+    if (!symbol) {
+      throw new Error(`Type not found: ${name}`);
+    }
+    if (!typeNames && isGenericDeclaration(symbol)) {
+      continue;
+    }
+    types.set(name, typeChecker.getDeclaredTypeOfSymbol(symbol));
+  }
+
+  return compileBundle(types, typeChecker, {
+    exactOptionalPropertyTypes:
+      program.getCompilerOptions().exactOptionalPropertyTypes,
+    ...compileOptions,
+  });
+}
@@ -0,0 +1,160 @@
+import type ts from 'typescript';
+import type { CompileOptions, JSONSchema } from './types';
+
+/**
+ * Schema compiled for a named type, with the hoisted types its `$ref`s point
+ * at and their definition keys, in the order they were first referenced
+ */
+export interface CachedSchema {
+  schema: JSONSchema;
+  references: ReadonlyMap<ts.Type, string>;
+}
+
+/**
+ * Schemas compiled with one type checker, keyed by serialized options and
+ * type, least recently used first
+ */
+type CheckerCache = Map<string, CachedSchema>;
+
+/**
+ * The part of a type checker's cache holding schemas compiled with one set
+ * of options
+ */
+export interface SchemaCache {
+  entries: CheckerCache;
+  optionsKey: string;
+}
+
+/** Maximum number of cached schemas per type checker, whatever their options */
+const MAX_CACHED_SCHEMAS = 4096;
+
+/** Caches by type checker */
+let caches = new WeakMap<ts.TypeChecker, CheckerCache>();
+
+/** Identity of types and option callbacks within cache keys */
+const objectIds = new WeakMap<object, number>();
+let nextObjectId = 0;
+
+/**
+ * Stable number identifying an object for as long as it is alive
+ */
+function getObjectId(value: object): number {
+  let id = objectIds.get(value);
+  if (id === undefined) {
+    id = nextObjectId++;
+    objectIds.set(value, id);
+  }
+  return id;
+}
+
+/**
+ * Serialize the options that affect compiled schemas. Callbacks such as
+ * mappers and tag handlers are compared by identity, so changing a tag
+ * registry after compiling requires clearSchemaCache.
+ */
+function getOptionsKey(options: CompileOptions): string {
+  return JSON.stringify(
+    // The definitions option only collects the output
+    { ...options, definitions: undefined },
+    (_, value: unknown) =>
+      typeof value === 'function' ? `#${getObjectId(value)}` : value
+  );
+}
+
+/**
+ * Deep copy of a schema, whose values are plain JSON
+ */
+export function cloneSchema<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(cloneSchema) as T;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const copy: { [key: string]: unknown } = {};
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = cloneSchema(item);
+    }
+    return copy as T;
+  }
+  return value;
+}
+
+/**
+ * Get the cache shared by compilations with the same type checker and options
+ */
+export function getSchemaCache(
+  typeChecker: ts.TypeChecker,
+  options: CompileOptions
+): SchemaCache {
+  let entries = caches.get(typeChecker);
+  if (!entries) {
+    entries = new Map();
+    caches.set(typeChecker, entries);
+  }
+  return { entries, optionsKey: getOptionsKey(options) };
+}
+
+/**
+ * Key of a type's schema, which also depends on how the type is compiled:
+ * without `undefined` in optional properties and as an open intersection member
+ */
+export function getCacheKey(
+  type: ts.Type,
+  ignoreUndefinedInUnion: boolean,
+  openObjects: boolean
+): string {
+  return `${getObjectId(type)}:${Number(ignoreUndefinedInUnion)}${Number(openObjects)}`;
+}
+
+/**
+ * Key of a schema within its type checker's cache
+ */
+function getEntryKey(cache: SchemaCache, key: string): string {
+  // Serialized options contain no raw line breaks
+  return `${cache.optionsKey}\n${key}`;
+}
+
+/**
+ * Look up a cached schema, marking it as recently used
+ */
+export function readCache(
+  cache: SchemaCache,
+  key: string
+): CachedSchema | undefined {
+  const { entries } = cache;
+  const entryKey = getEntryKey(cache, key);
+  const cached = entries.get(entryKey);
+  if (cached) {
+    entries.delete(entryKey);
+    entries.set(entryKey, cached);
+  }
+  return cached;
+}
+
+/**
+ * Cache a schema, evicting the type checker's least recently used one when
+ * full, which may have been compiled with other options
+ */
+export function writeCache(
+  cache: SchemaCache,
+  key: string,
+  cached: CachedSchema
+): void {
+  const { entries } = cache;
+  const entryKey = getEntryKey(cache, key);
+  entries.delete(entryKey);
+  if (entries.size >= MAX_CACHED_SCHEMAS) {
+    entries.delete(entries.keys().next().value!);
+  }
+  entries.set(entryKey, cached);
+}
+
+/**
+ * Clear the schemas cached for a type checker, or for every type checker
+ */
+export function clearSchemaCache(typeChecker?: ts.TypeChecker): void {
+  if (typeChecker) {
+    caches.delete(typeChecker);
+  } else {
+    caches = new WeakMap();
+  }
+}
@@ -0,0 +1,300 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import process from 'node:process';
+import { parseArgs } from 'node:util';
+import ts from 'typescript';
+import { bundleTypes } from './bundle';
+import { compile } from './compiler';
+import {
+  DEFAULT_COMPILER_OPTIONS,
+  getProgram,
+  getTypeSymbols,
+  isGenericDeclaration,
+} from './program';
+import { watchTypes } from './watch';
+import type { CompileOptions, JSONSchema, SchemaTarget } from './types';
+
+/** Output streams used by the command-line interface */
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+const USAGE = `Usage: ts-json-schema [options] <entry> [TypeName...]
+
+Options:
+  -p, --project <path>  tsconfig.json to read compiler options from
+  -a, --all             Compile all exported types of the entry file
+  -o, --out <dir>       Write <TypeName>.schema.json files instead of stdout
+  -b, --bundle          Compile all types into one document with shared $defs
+  -w, --watch           Recompile changed types on every edit
+  -t, --target <name>   draft-07 | 2019-09 | 2020-12 | openapi-3.0 | openapi-3.1
+  -r, --references      Hoist named types into $defs
+      --discriminator   Emit discriminator objects for discriminated unions
+  -h, --help            Show this help
+`;
+
+const TARGETS: SchemaTarget[] = [
+  'draft-07',
+  '2019-09',
+  '2020-12',
+  'openapi-3.0',
+  'openapi-3.1',
+];
+
+/**
+ * Format TypeScript diagnostics with file locations
+ */
+function formatDiagnostics(diagnostics: readonly ts.Diagnostic[]): string {
+  return ts.formatDiagnostics(diagnostics, {
+    getCanonicalFileName: (fileName) => fileName,
+    getCurrentDirectory: () => process.cwd(),
+    getNewLine: () => '\n',
+  });
+}
+
+/**
+ * Read compiler options from a tsconfig file, or the defaults of compileType
+ * when there is none
+ */
+function readCompilerOptions(
+  project: string | undefined,
+  io: CliIO
+): ts.CompilerOptions | undefined {
+  const configPath =
+    project ?? ts.findConfigFile(process.cwd(), ts.sys.fileExists);
+  if (!configPath) {
+    return DEFAULT_COMPILER_OPTIONS;
+  }
+
+  const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+  if (error) {
+    io.stderr(formatDiagnostics([error]));
+    return undefined;
+  }
+
+  const parsed = ts.parseJsonConfigFileContent(
+    config,
+    ts.sys,
+    path.dirname(path.resolve(configPath))
+  );
+  if (parsed.errors.length > 0) {
+    io.stderr(formatDiagnostics(parsed.errors));
+    return undefined;
+  }
+  return parsed.options;
+}
+
+/**
+ * Run the command-line interface and return its exit code
+ */
+export function run(
+  argv: string[],
+  io: CliIO = {
+    stdout: (text) => process.stdout.write(text),
+    stderr: (text) => process.stderr.write(text),
+  }
+): number {
+  let args: ReturnType<typeof parseCliArgs>;
+  try {
+    args = parseCliArgs(argv);
+  } catch (error) {
+    io.stderr(`error: ${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const { values, positionals } = args;
+  if (values.help) {
+    io.stdout(USAGE);
+    return 0;
+  }
+
+  const [entry, ...typeNames] = positionals;
+  if (!entry || (typeNames.length === 0 && !values.all)) {
+    io.stderr(USAGE);
+    return 2;
+  }
+
+  const target = values.target as SchemaTarget | undefined;
+  if (target && !TARGETS.includes(target)) {
+    io.stderr(`error: Unknown target: ${target}\n`);
+    return 2;
+  }
+
+  const compilerOptions = readCompilerOptions(values.project, io);
+  if (!compilerOptions) {
+    return 1;
+  }
+
+  if (values.watch) {
+    if (values.bundle) {
+      io.stderr('error: --watch does not support --bundle\n');
+      return 2;
+    }
+    if (
+      values.references &&
+      (target === 'openapi-3.0' || target === 'openapi-3.1')
+    ) {
+      io.stderr(
+        'error: --watch does not support references with OpenAPI targets\n'
+      );
+      return 2;
+    }
+    // The watcher keeps the process alive until it is interrupted
+    watchTypes(entry, values.all ? undefined : typeNames, {
+      compilerOptions,
+      target,
+      useReferences: values.references,
+      discriminator: values.discriminator,
+      outDir: values.out,
+      onChange: ({ name, schema }) => {
+        if (values.out) {
+          io.stderr(`Updated ${name}.schema.json\n`);
+        } else {
+          io.stdout(`${JSON.stringify({ [name]: schema }, null, 2)}\n`);
+        }
+      },
+      onError: (error, name) => {
+        io.stderr(
+          name
+            ? `error: Cannot compile type ${name}: ${error.message}\n`
+            : `error: ${error.message}\n`
+        );
+      },
+    });
+    return 0;
+  }
+
+  const { program, fileName } = getProgram({ file: entry }, compilerOptions);
+  const sourceFile = program.getSourceFile(fileName);
+  if (!sourceFile) {
+    io.stderr(`error: Cannot read entry file: ${entry}\n`);
+    return 1;
+  }
+
+  const syntaxErrors = program.getSyntacticDiagnostics(sourceFile);
+  if (syntaxErrors.length > 0) {
+    io.stderr(formatDiagnostics(syntaxErrors));
+    return 1;
+  }
+
+  const typeChecker = program.getTypeChecker();
+  const symbols = getTypeSymbols(sourceFile, typeChecker, values.all);
+  const names = values.all
+    ? [...symbols]
+        .filter(([, symbol]) => !isGenericDeclaration(symbol))
+        .map(([name]) => name)
+    : typeNames;
+
+  const options: CompileOptions = {
+    target,
+    useReferences: values.references,
+    discriminator: values.discriminator,
+    exactOptionalPropertyTypes: compilerOptions.exactOptionalPropertyTypes,
+  };
+  if (
+    (options.useReferences || values.bundle) &&
+    (target === 'openapi-3.0' || target === 'openapi-3.1')
+  ) {
+    // Roots share the components, so a name taken by another type is an error
+    options.definitions = {};
+    options.nameCollisions = 'error';
+  }
+
+  if (values.bundle) {
+    let bundle: JSONSchema;
+    try {
+      bundle = bundleTypes(
+        { file: entry },
+        values.all ? undefined : typeNames,
+        {
+          ...options,
+          compilerOptions,
+        }
+      );
+    } catch (error) {
+      io.stderr(`error: ${(error as Error).message}\n`);
+      return 1;
+    }
+    const [file, document] = options.definitions
+      ? ['components.json', { components: { schemas: options.definitions } }]
+      : ['bundle.schema.json', bundle];
+    const json = `${JSON.stringify(document, null, 2)}\n`;
+    if (values.out) {
+      fs.mkdirSync(values.out, { recursive: true });
+      fs.writeFileSync(path.join(values.out, file), json);
+    } else {
+      io.stdout(json);
+    }
+    return 0;
+  }
+
+  const schemas = new Map<string, JSONSchema>();
+  let failed = false;
+
+  for (const name of names) {
+    const symbol = symbols.get(name);
+    if (!symbol) {
+      io.stderr(`error: Type not found in ${entry}: ${name}\n`);
+      failed = true;
+      continue;
+    }
+
+    try {
+      const type = typeChecker.getDeclaredTypeOfSymbol(symbol);
+      schemas.set(name, compile(type, typeChecker, options));
+    } catch (error) {
+      io.stderr(
+        `error: Cannot compile type ${name}: ${(error as Error).message}\n`
+      );
+      failed = true;
+    }
+  }
+
+  // OpenAPI references point into components, so emit those instead
+  if (options.definitions) {
+    const document = { components: { schemas: options.definitions } };
+    const json = `${JSON.stringify(document, null, 2)}\n`;
+    if (values.out) {
+      fs.mkdirSync(values.out, { recursive: true });
+      fs.writeFileSync(path.join(values.out, 'components.json'), json);
+    } else {
+      io.stdout(json);
+    }
+  } else if (values.out) {
+    fs.mkdirSync(values.out, { recursive: true });
+    for (const [name, schema] of schemas) {
+      const file = path.join(values.out, `${name}.schema.json`);
+      fs.writeFileSync(file, `${JSON.stringify(schema, null, 2)}\n`);
+    }
+  } else if (schemas.size > 0) {
+    const output =
+      schemas.size === 1 && !values.all
+        ? [...schemas.values()][0]
+        : Object.fromEntries(schemas);
+    io.stdout(`${JSON.stringify(output, null, 2)}\n`);
+  }
+
+  return failed ? 1 : 0;
+}
+
+/**
+ * Parse command-line arguments
+ */
+function parseCliArgs(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      project: { type: 'string', short: 'p' },
+      all: { type: 'boolean', short: 'a' },
+      out: { type: 'string', short: 'o' },
+      target: { type: 'string', short: 't' },
+      references: { type: 'boolean', short: 'r' },
+      bundle: { type: 'boolean', short: 'b' },
+      discriminator: { type: 'boolean' },
+      watch: { type: 'boolean', short: 'w' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+}
@@ -1,5 +1,26 @@
 import ts from 'typescript';
-import type { JSONSchema } from './types';
+import {
+  cloneSchema,
+  getCacheKey,
+  getSchemaCache,
+  readCache,
+  writeCache,
+} from './cache';
+import type { SchemaCache } from './cache';
+import { CompileError, formatLocation } from './diagnostics';
+import type {
+  CompileOptions,
+  Diagnostic,
+  DiagnosticCode,
+  JSONSchema,
+  SchemaTarget,
+} from './types';
+import { standardMappers } from './mappers';
+import {
+  getTemplatePattern,
+  getUnionPattern,
+  STRING_PATTERN,
+} from './template';
 import { extractJSDocTags, getDescription, applyJSDocTags } from './utils';
 
 /**
@@ -23,46 +44,1199 @@ function extractLiteralValue(
   return undefined;
 }
 
+/** Default of the maxEnumValues option */
+const DEFAULT_MAX_ENUM_VALUES = 100;
+
+/** Types emitted as JSON `null` */
+const NULLISH_TYPES = ts.TypeFlags.Null | ts.TypeFlags.Undefined;
+
+/** `$schema` URIs of the JSON Schema targets */
+const SCHEMA_URIS: { [target in SchemaTarget]?: string } = {
+  'draft-07': 'http://json-schema.org/draft-07/schema#',
+  '2019-09': 'https://json-schema.org/draft/2019-09/schema',
+  '2020-12': 'https://json-schema.org/draft/2020-12/schema',
+};
+
+/**
+ * Whether a target is an OpenAPI schema object dialect
+ */
+function isOpenAPI(target: SchemaTarget | undefined): boolean {
+  return target === 'openapi-3.0' || target === 'openapi-3.1';
+}
+
+/**
+ * Whether the target has `unevaluatedProperties`, which draft-07 and
+ * OpenAPI 3.0 lack
+ */
+function supportsUnevaluated(options: CompileOptions): boolean {
+  return options.target !== 'draft-07' && options.target !== 'openapi-3.0';
+}
+
+/**
+ * Set a single allowed value; OpenAPI 3.0 has no `const` keyword
+ */
+function setConst(
+  schema: JSONSchema,
+  value: string | number | boolean,
+  ctx: CompileContext
+): void {
+  if (ctx.options.target === 'openapi-3.0') {
+    schema.enum = [value];
+  } else {
+    schema.const = value;
+  }
+}
+
+/** State shared across one compilation */
+export interface CompileContext {
+  typeChecker: ts.TypeChecker;
+  options: CompileOptions;
+  /** Hoisted definitions, in the order they were first referenced */
+  definitions: Map<string, JSONSchema>;
+  /** Definition key assigned to each hoisted type */
+  definitionNames: Map<ts.Type, string>;
+  /** Object types currently being compiled inline, for cycle detection */
+  visiting: Set<ts.Type>;
+  /** Escaped JSON pointer segments of the schema being compiled */
+  path: string[];
+  /** Nearest declaration of the type or property being compiled */
+  node?: ts.Node;
+  /** Collected diagnostics; failures throw when undefined */
+  diagnostics?: Diagnostic[];
+  /** Schemas of named types compiled earlier with the same checker and options */
+  cache: SchemaCache;
+  /**
+   * Hoisted types referenced by each named type being compiled, by definition
+   * key; the innermost type is last
+   */
+  references: Map<ts.Type, string>[];
+  /**
+   * Compiling the members of a mixed intersection, whose objects stay open
+   * so that `unevaluatedProperties` can close the intersection as a whole
+   */
+  openObjects?: boolean;
+}
+
+/**
+ * Escape a JSON pointer segment
+ */
+export function escapePointer(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Report a problem at the current location: throw a CompileError, or record
+ * it and let the caller continue with a placeholder when collecting diagnostics
+ */
+export function fail(
+  ctx: CompileContext,
+  code: DiagnosticCode,
+  message: string,
+  node = ctx.node
+): void {
+  const pointer = ctx.path.map((segment) => `/${segment}`).join('');
+  const diagnostic: Diagnostic = { code, message, node, path: pointer };
+  if (!ctx.diagnostics) {
+    throw new CompileError(diagnostic);
+  }
+  ctx.diagnostics.push(diagnostic);
+}
+
+/**
+ * First declaration of a named type, for diagnostic locations
+ */
+export function getTypeDeclaration(type: ts.Type): ts.Declaration | undefined {
+  return (type.aliasSymbol ?? type.getSymbol())?.getDeclarations()?.[0];
+}
+
+/**
+ * Type arguments of a generic alias or interface instantiation,
+ * without the implicit `this` argument of classes and interfaces
+ */
+function getTypeArguments(
+  type: ts.Type,
+  typeChecker: ts.TypeChecker
+): readonly ts.Type[] {
+  if (type.aliasSymbol) {
+    return type.aliasTypeArguments ?? [];
+  }
+  if (
+    type.flags & ts.TypeFlags.Object &&
+    (type as ts.ObjectType).objectFlags & ts.ObjectFlags.Reference
+  ) {
+    const { target } = type as ts.TypeReference;
+    return typeChecker
+      .getTypeArguments(type as ts.TypeReference)
+      .slice(0, target.typeParameters?.length ?? 0);
+  }
+  return [];
+}
+
+/**
+ * Readable identifier for a type argument, used in generic definition names
+ */
+function getTypeArgumentName(
+  type: ts.Type,
+  typeChecker: ts.TypeChecker
+): string {
+  if (typeChecker.isArrayType(type)) {
+    const [element] = typeChecker.getTypeArguments(type as ts.TypeReference);
+    return element
+      ? `Array_${getTypeArgumentName(element, typeChecker)}`
+      : 'Array';
+  }
+  return (
+    getDefinitionName(type, typeChecker) ??
+    typeChecker
+      .typeToString(type)
+      .replace(/[^\w$]+/g, '_')
+      .replace(/^_+|_+$/g, '')
+  );
+}
+
+/**
+ * Symbol of the interface, class, enum or type alias declaring a type
+ */
+function getDeclarationSymbol(
+  type: ts.Type,
+  typeChecker: ts.TypeChecker
+): ts.Symbol | undefined {
+  if (typeChecker.isArrayType(type) || typeChecker.isTupleType(type)) {
+    return undefined;
+  }
+
+  const symbol = type.aliasSymbol ?? type.getSymbol();
+  if (
+    !symbol ||
+    !(
+      type.aliasSymbol ||
+      symbol.flags &
+        (ts.SymbolFlags.Interface | ts.SymbolFlags.Class | ts.SymbolFlags.Enum)
+    )
+  ) {
+    return undefined;
+  }
+  return symbol;
+}
+
+/**
+ * Default naming strategy: the name of the interface, class, enum or type alias,
+ * followed by the type arguments of generic instantiations (`Paginated_User`).
+ * Anonymous types, arrays and tuples are not hoisted.
+ */
+export function getDefinitionName(
+  type: ts.Type,
+  typeChecker: ts.TypeChecker
+): string | undefined {
+  const symbol = getDeclarationSymbol(type, typeChecker);
+  if (!symbol) {
+    return undefined;
+  }
+
+  // The generic declaration itself is named without its type parameters
+  const typeArguments = getTypeArguments(type, typeChecker);
+  if (typeArguments.every((arg) => arg.flags & ts.TypeFlags.TypeParameter)) {
+    return symbol.getName();
+  }
+  return [
+    symbol.getName(),
+    ...typeArguments.map((arg) => getTypeArgumentName(arg, typeChecker)),
+  ].join('_');
+}
+
+/**
+ * JSON pointer segments of the target's definitions container
+ */
+export function getDefinitionsPath(target: SchemaTarget | undefined): string[] {
+  return isOpenAPI(target)
+    ? ['components', 'schemas']
+    : target === 'draft-07'
+      ? ['definitions']
+      : ['$defs'];
+}
+
+/**
+ * Build a `$ref` pointing at a definition key in the target's definitions container
+ */
+function refTo(name: string, ctx: CompileContext): string {
+  const base = getDefinitionsPath(ctx.options.target).join('/');
+  return `#/${base}/${encodeURIComponent(escapePointer(name))}`;
+}
+
+/**
+ * Report a definition key claimed by two different types, pointing at the
+ * declaration of the type that took it first when there is one
+ */
+export function reportNameCollision(
+  type: ts.Type,
+  name: string,
+  ctx: CompileContext
+): void {
+  const [other] =
+    [...ctx.definitionNames].find(([, key]) => key === name) ?? [];
+  const declaration = other && getTypeDeclaration(other);
+  fail(
+    ctx,
+    'name-collision',
+    declaration
+      ? `Definition name ${name} is already used by the type declared at ${formatLocation(declaration)}`
+      : `Definition name ${name} is already used by another type`,
+    getTypeDeclaration(type) ?? ctx.node
+  );
+}
+
+/**
+ * Hoist a named type into the definitions and return a `$ref` to it,
+ * or undefined if the type should be inlined.
+ */
+function compileReference(
+  type: ts.Type,
+  ctx: CompileContext
+): JSONSchema | undefined {
+  const existing = ctx.definitionNames.get(type);
+  if (existing !== undefined) {
+    recordReference(type, existing, ctx);
+    return { $ref: refTo(existing, ctx) };
+  }
+
+  const nameOf = ctx.options.definitionName ?? getDefinitionName;
+  const name = nameOf(type, ctx.typeChecker);
+  if (!name) {
+    return undefined;
+  }
+
+  if (ctx.definitions.has(name) && ctx.options.nameCollisions === 'error') {
+    reportNameCollision(type, name, ctx);
+  }
+  let key = name;
+  for (let i = 2; ctx.definitions.has(key); i++) {
+    key = `${name}_${i}`;
+  }
+
+  // Register before compiling the body so recursive references resolve to this key
+  ctx.definitionNames.set(type, key);
+  ctx.definitions.set(key, {});
+  recordReference(type, key, ctx);
+
+  const { path, node } = ctx;
+  ctx.path = [...getDefinitionsPath(ctx.options.target), escapePointer(key)];
+  ctx.node = getTypeDeclaration(type) ?? node;
+  try {
+    ctx.definitions.set(key, compileCached(type, ctx, false, true));
+  } finally {
+    ctx.path = path;
+    ctx.node = node;
+  }
+  return { $ref: refTo(key, ctx) };
+}
+
+/**
+ * Note that the named type being compiled references a hoisted type
+ */
+function recordReference(
+  type: ts.Type,
+  key: string,
+  ctx: CompileContext
+): void {
+  const references = ctx.references.at(-1);
+  if (references && !references.has(type)) {
+    references.set(type, key);
+  }
+}
+
+/**
+ * Register the hoisted types referenced by a cached schema, with their cached
+ * definitions, in the order a fresh compilation would. Returns false and
+ * leaves the context untouched when any of them would get another key or has
+ * no cached definition.
+ */
+function restoreReferences(
+  references: ReadonlyMap<ts.Type, string>,
+  ctx: CompileContext
+): boolean {
+  const nameOf = ctx.options.definitionName ?? getDefinitionName;
+  const restored = new Map<ts.Type, { key: string; schema: JSONSchema }>();
+  const keys = new Set<string>();
+
+  const plan = (pending: ReadonlyMap<ts.Type, string>): boolean => {
+    for (const [type, key] of pending) {
+      const existing = ctx.definitionNames.get(type) ?? restored.get(type)?.key;
+      if (existing !== undefined) {
+        if (existing !== key) {
+          return false;
+        }
+        continue;
+      }
+      if (
+        ctx.definitions.has(key) ||
+        keys.has(key) ||
+        nameOf(type, ctx.typeChecker) !== key
+      ) {
+        return false;
+      }
+      const cached = readCache(ctx.cache, getCacheKey(type, false, false));
+      if (!cached) {
+        return false;
+      }
+      restored.set(type, { key, schema: cached.schema });
+      keys.add(key);
+      if (!plan(cached.references)) {
+        return false;
+      }
+    }
+    return true;
+  };
+
+  if (!plan(references)) {
+    return false;
+  }
+  for (const [type, { key, schema }] of restored) {
+    ctx.definitionNames.set(type, key);
+    ctx.definitions.set(key, cloneSchema(schema));
+  }
+  return true;
+}
+
+/**
+ * Compile a type with compileInline, reusing the schema of a named type
+ * compiled earlier with the same type checker and options. Cached schemas are
+ * never handed out, callers get copies they may annotate.
+ */
+export function compileCached(
+  type: ts.Type,
+  ctx: CompileContext,
+  ignoreUndefinedInUnion: boolean,
+  hoisted = false
+): JSONSchema {
+  if (!getDeclarationSymbol(type, ctx.typeChecker)) {
+    return compileInline(type, ctx, ignoreUndefinedInUnion);
+  }
+
+  // An inline schema contributes its references to the enclosing named type,
+  // a hoisted one only the `$ref` to itself
+  const addReferences = (references: ReadonlyMap<ts.Type, string>) => {
+    if (!hoisted) {
+      for (const [referenced, key] of references) {
+        recordReference(referenced, key, ctx);
+      }
+    }
+  };
+
+  const cacheKey = getCacheKey(
+    type,
+    ignoreUndefinedInUnion,
+    ctx.openObjects ?? false
+  );
+  const cached = readCache(ctx.cache, cacheKey);
+  if (cached && restoreReferences(cached.references, ctx)) {
+    addReferences(cached.references);
+    return cloneSchema(cached.schema);
+  }
+
+  const references = new Map<ts.Type, string>();
+  const diagnostics = ctx.diagnostics?.length;
+  ctx.references.push(references);
+  let schema: JSONSchema;
+  try {
+    schema = compileInline(type, ctx, ignoreUndefinedInUnion);
+  } finally {
+    ctx.references.pop();
+  }
+  addReferences(references);
+
+  // Schemas with problems are compiled again to report them
+  if (ctx.diagnostics?.length === diagnostics) {
+    writeCache(ctx.cache, cacheKey, {
+      schema: cloneSchema(schema),
+      references,
+    });
+  }
+  return schema;
+}
+
+/**
+ * Find a property whose type is a distinct literal in every union member,
+ * or undefined if the union is not discriminated.
+ */
+function findDiscriminator(
+  types: readonly ts.Type[],
+  typeChecker: ts.TypeChecker
+): { propertyName: string; values: (string | number | boolean)[] } | undefined {
+  const [first] = types;
+  if (
+    !first ||
+    !types.every(
+      (t) =>
+        t.flags & ts.TypeFlags.Object &&
+        !typeChecker.isArrayType(t) &&
+        !typeChecker.isTupleType(t)
+    )
+  ) {
+    return undefined;
+  }
+
+  for (const candidate of typeChecker.getPropertiesOfType(first)) {
+    const propertyName = candidate.getName();
+    const values: (string | number | boolean)[] = [];
+
+    for (const t of types) {
+      const prop = typeChecker.getPropertyOfType(t, propertyName);
+      if (!prop || prop.flags & ts.SymbolFlags.Optional) {
+        break;
+      }
+      const value = extractLiteralValue(
+        typeChecker.getTypeOfSymbol(prop),
+        typeChecker,
+        true
+      );
+      if (value === undefined || values.includes(value)) {
+        break;
+      }
+      values.push(value);
+    }
+
+    if (values.length === types.length) {
+      return { propertyName, values };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Compile a non-literal union into `oneOf` (discriminated unions) or `anyOf`.
+ */
+function compileUnion(
+  schema: JSONSchema,
+  types: readonly ts.Type[],
+  ctx: CompileContext
+): void {
+  const { typeChecker } = ctx;
+
+  const discriminator = findDiscriminator(types, typeChecker);
+  if (discriminator) {
+    schema.oneOf = types.map((t, i) => compileAt(t, ctx, ['oneOf', i]));
+    // OpenAPI only allows string discriminator values
+    if (
+      ctx.options.discriminator &&
+      discriminator.values.every((v) => typeof v === 'string')
+    ) {
+      schema.discriminator = { propertyName: discriminator.propertyName };
+
+      // Map discriminator values to hoisted member definitions
+      const mapping: { [value: string]: string } = {};
+      schema.oneOf.forEach((member, index) => {
+        if (member.$ref) {
+          mapping[String(discriminator.values[index])] = member.$ref;
+        }
+      });
+      if (Object.keys(mapping).length > 0) {
+        schema.discriminator.mapping = mapping;
+      }
+    }
+    return;
+  }
+
+  const members: JSONSchema[] = [];
+  const literals: (string | number | boolean)[] = [];
+  const isBoolean = (t: ts.Type) =>
+    (t.flags & ts.TypeFlags.BooleanLiteral) !== 0;
+  // `boolean` is itself the union `true | false`; fold it back together
+  const hasBoolean = types.filter(isBoolean).length === 2;
+
+  let booleanAdded = false;
+
+  // The checker orders intrinsic types first; list null/undefined last as written
+  const ordered = [
+    ...types.filter((t) => !(t.flags & NULLISH_TYPES)),
+    ...types.filter((t) => t.flags & NULLISH_TYPES),
+  ];
+
+  for (const t of ordered) {
+    if (hasBoolean && isBoolean(t)) {
+      if (!booleanAdded) {
+        members.push({ type: 'boolean' });
+        booleanAdded = true;
+      }
+      continue;
+    }
+
+    const value = extractLiteralValue(t, typeChecker, true);
+    if (value !== undefined) {
+      // Group literal members into a single enum at the first literal's position
+      if (literals.length === 0) {
+        members.push({ enum: literals });
+      }
+      literals.push(value);
+      continue;
+    }
+
+    members.push(compileAt(t, ctx, ['anyOf', members.length]));
+  }
+
+  schema.anyOf = members;
+}
+
+/** A value of an enum or literal union, with the enum member declaring it */
+interface EnumOption {
+  value: string | number | boolean;
+  member?: ts.Symbol;
+}
+
+/**
+ * The enum member symbol of an enum literal type
+ */
+function getEnumMember(type: ts.Type): ts.Symbol | undefined {
+  const symbol = type.getSymbol();
+  return symbol && symbol.flags & ts.SymbolFlags.EnumMember
+    ? symbol
+    : undefined;
+}
+
+/**
+ * Set the allowed values of an enum or literal union. When some values come
+ * from enum members, the `enumStyle` option can label them with the member
+ * names and JSDoc descriptions.
+ */
+function setEnum(
+  schema: JSONSchema,
+  options: EnumOption[],
+  ctx: CompileContext
+): void {
+  const { typeChecker } = ctx;
+  const { enumStyle = 'enum' } = ctx.options;
+  const labeled =
+    enumStyle !== 'enum' && options.some((option) => option.member);
+
+  if (labeled && enumStyle === 'oneOf') {
+    schema.oneOf = options.map(({ value, member }) => {
+      const option: JSONSchema = {};
+      setConst(option, value, ctx);
+      if (member) {
+        option.title = member.getName();
+        const description = getDescription(member, typeChecker);
+        if (description) {
+          option.description = description;
+        }
+      }
+      return option;
+    });
+    return;
+  }
+
+  schema.enum = options.map((option) => option.value);
+  if (labeled) {
+    schema['x-enum-varnames'] = options.map(
+      ({ value, member }) => member?.getName() ?? String(value)
+    );
+    const descriptions = options.map(
+      ({ member }) => (member && getDescription(member, typeChecker)) ?? ''
+    );
+    if (descriptions.some(Boolean)) {
+      schema['x-enum-descriptions'] = descriptions;
+    }
+  }
+}
+
+/**
+ * Compile the members of a union: a single member as itself, literals as `enum`,
+ * string-like members as one pattern, and anything else as `anyOf`/`oneOf`.
+ */
+function compileUnionTypes(
+  schema: JSONSchema,
+  unionTypes: readonly ts.Type[],
+  ctx: CompileContext
+): JSONSchema {
+  const { typeChecker } = ctx;
+
+  // `undefined` is dropped, or the same JSON null as a `null` member
+  const { undefinedAs = 'null', target } = ctx.options;
+  const hasNull = unionTypes.some((t) => t.flags & ts.TypeFlags.Null);
+  if (undefinedAs === 'omit' || hasNull) {
+    unionTypes = unionTypes.filter((t) => !(t.flags & ts.TypeFlags.Undefined));
+  }
+
+  const [singleUnionType] = unionTypes;
+  if (unionTypes.length === 1 && singleUnionType) {
+    return compileSubschema(singleUnionType, ctx);
+  }
+
+  // OpenAPI 3.0 has no null type, nullability is a flag on the other members
+  const nullStyle =
+    ctx.options.nullStyle ?? (target === 'openapi-3.0' ? 'nullable' : 'anyOf');
+  if (nullStyle !== 'anyOf') {
+    const nonNull = unionTypes.filter((t) => !(t.flags & NULLISH_TYPES));
+    if (nonNull.length > 0 && nonNull.length < unionTypes.length) {
+      const inner = compileUnionTypes(schema, nonNull, ctx);
+      if (nullStyle === 'nullable') {
+        if (inner.$ref) {
+          return { allOf: [inner], nullable: true };
+        }
+        inner.nullable = true;
+        return inner;
+      }
+      // A type array only expresses nullability of a plain typed schema
+      if (
+        typeof inner.type === 'string' &&
+        inner.enum === undefined &&
+        inner.const === undefined
+      ) {
+        inner.type = [inner.type, 'null'];
+        return inner;
+      }
+      return { anyOf: [inner, { type: 'null' }] };
+    }
+  }
+
+  const enumOptions: EnumOption[] = [];
+  let allLiterals = true;
+
+  for (const unionType of unionTypes) {
+    const value = extractLiteralValue(unionType, typeChecker, true);
+    if (value === undefined) {
+      allLiterals = false;
+      break;
+    }
+    // Enum members and plain literals with the same value collapse
+    if (!enumOptions.some((option) => option.value === value)) {
+      enumOptions.push({ value, member: getEnumMember(unionType) });
+    }
+  }
+
+  // Finite template literals are expanded by the checker and end up here too,
+  // large sets of strings are matched by a pattern instead
+  const { maxEnumValues = DEFAULT_MAX_ENUM_VALUES } = ctx.options;
+  if (
+    allLiterals &&
+    enumOptions.length > maxEnumValues &&
+    enumOptions.every(
+      (option) => typeof option.value === 'string' && !option.member
+    )
+  ) {
+    const pattern = getUnionPattern(unionTypes, typeChecker);
+    if (pattern !== undefined) {
+      schema.type = 'string';
+      schema.pattern = pattern;
+      return schema;
+    }
+  }
+
+  if (allLiterals && enumOptions.length > 0) {
+    const enumValues = enumOptions.map((option) => option.value);
+    // `boolean | undefined` leaves just the two boolean literals
+    if (
+      enumValues.length === 2 &&
+      enumValues.includes(true) &&
+      enumValues.includes(false)
+    ) {
+      schema.type = 'boolean';
+      return schema;
+    }
+    setEnum(schema, enumOptions, ctx);
+    return schema;
+  }
+
+  // Unions of string literals and template literals collapse into one pattern
+  const stringLike = ts.TypeFlags.StringLiteral | STRING_PATTERN_TYPES;
+  if (
+    unionTypes.every((t) => t.flags & stringLike) &&
+    unionTypes.some((t) => t.flags & STRING_PATTERN_TYPES)
+  ) {
+    const pattern = getUnionPattern(unionTypes, typeChecker);
+    if (pattern !== undefined) {
+      schema.type = 'string';
+      schema.pattern = pattern;
+      return schema;
+    }
+  }
+
+  compileUnion(schema, unionTypes, ctx);
+  return schema;
+}
+
+/**
+ * Compile a tuple into fixed leading items plus an optional rest items schema.
+ */
+function compileTuple(
+  schema: JSONSchema,
+  type: ts.TypeReference,
+  ctx: CompileContext
+): void {
+  const { typeChecker } = ctx;
+  const tuple = type.target as ts.TupleType;
+  const elementTypes = typeChecker.getTypeArguments(type);
+
+  const { target } = ctx.options;
+  const arrayItems = target === 'draft-07' || target === '2019-09';
+
+  const fixedItems: JSONSchema[] = [];
+  let restItems: JSONSchema | undefined;
+
+  tuple.elementFlags.forEach((flags, index) => {
+    const elementType = elementTypes[index];
+    if (!elementType || flags & ts.ElementFlags.Variadic) {
+      fail(
+        ctx,
+        'unsupported-tuple',
+        `Variadic tuple elements are not supported: ${typeChecker.typeToString(type)}`
+      );
+      return;
+    }
+    if (restItems) {
+      fail(
+        ctx,
+        'unsupported-tuple',
+        `Tuple elements after a rest element are not supported: ${typeChecker.typeToString(type)}`
+      );
+      return;
+    }
+
+    if (flags & ts.ElementFlags.Rest) {
+      const restPath =
+        arrayItems && fixedItems.length > 0 ? 'additionalItems' : 'items';
+      restItems = compileAt(elementType, ctx, [restPath]);
+      return;
+    }
+
+    const item = compileAt(
+      elementType,
+      ctx,
+      [arrayItems ? 'items' : 'prefixItems', fixedItems.length],
+      (flags & ts.ElementFlags.Optional) !== 0
+    );
+    const label = tuple.labeledElementDeclarations?.[index]?.name;
+    if (label && ts.isIdentifier(label)) {
+      item.description = label.text;
+    }
+    fixedItems.push(item);
+  });
+
+  schema.type = 'array';
+
+  if (target === 'openapi-3.0') {
+    // OpenAPI 3.0 cannot describe positions, only the union of element types
+    const members = restItems ? [...fixedItems, restItems] : fixedItems;
+    schema.items =
+      members.length === 1
+        ? members[0]!
+        : members.length
+          ? { anyOf: members }
+          : {};
+  } else if (arrayItems) {
+    if (fixedItems.length > 0) {
+      schema.items = fixedItems;
+      schema.additionalItems = restItems ?? false;
+    } else {
+      schema.items = restItems ?? false;
+    }
+  } else {
+    if (fixedItems.length > 0) {
+      schema.prefixItems = fixedItems;
+    }
+    schema.items = restItems ?? false;
+  }
+
+  if (tuple.minLength > 0) {
+    schema.minItems = tuple.minLength;
+  }
+  if (!restItems) {
+    schema.maxItems = fixedItems.length;
+  }
+}
+
+/**
+ * Whether a type is an object type other than an array or tuple
+ */
+function isPlainObject(type: ts.Type, typeChecker: ts.TypeChecker): boolean {
+  return (
+    (type.flags & ts.TypeFlags.Object) !== 0 &&
+    !typeChecker.isArrayType(type) &&
+    !typeChecker.isTupleType(type)
+  );
+}
+
+/**
+ * Compile an intersection. TypeScript already distributes intersections over
+ * unions, so this sees one branch at a time: object members merge into a
+ * single object, and a primitive intersected with objects (a branded type such
+ * as `string & { __brand: 'Id' }`) compiles to the primitive. Anything else
+ * falls back to `allOf`.
+ */
+function compileIntersection(
+  schema: JSONSchema,
+  type: ts.IntersectionType,
+  ctx: CompileContext
+): JSONSchema {
+  const { typeChecker } = ctx;
+  const objects = type.types.filter((t) => isPlainObject(t, typeChecker));
+
+  if (objects.length === type.types.length) {
+    // Properties with conflicting types are `never`, and conflicting literal
+    // discriminants reduce the whole intersection to `never`
+    for (const member of type.types) {
+      for (const prop of typeChecker.getPropertiesOfType(member)) {
+        const merged = typeChecker.getPropertyOfType(type, prop.getName());
+        if (
+          !merged ||
+          typeChecker.getTypeOfSymbol(merged).flags & ts.TypeFlags.Never
+        ) {
+          withLocation(
+            ctx,
+            ['properties', escapePointer(prop.getName())],
+            merged?.valueDeclaration ?? prop.valueDeclaration,
+            () =>
+              fail(
+                ctx,
+                'impossible-type',
+                `Impossible intersection: conflicting types for property ${prop.getName()}`
+              )
+          );
+          return schema;
+        }
+      }
+    }
+
+    compileObjectProperties(schema, type, ctx);
+    return schema;
+  }
+
+  const others = type.types.filter((t) => !isPlainObject(t, typeChecker));
+  const brand = others[0];
+  if (
+    others.length === 1 &&
+    brand &&
+    brand.flags &
+      (ts.TypeFlags.StringLike |
+        ts.TypeFlags.NumberLike |
+        ts.TypeFlags.BigIntLike |
+        ts.TypeFlags.BooleanLike)
+  ) {
+    return Object.assign(schema, compileSubschema(brand, ctx));
+  }
+
+  // For mixed intersections, use allOf. `additionalProperties` only sees
+  // its own subschema, so closed intersections rely on
+  // `unevaluatedProperties` (2019-09 and later) instead
+  const { closedObjects } = ctx.options;
+  const { openObjects } = ctx;
+  ctx.openObjects = !!closedObjects;
+  try {
+    schema.allOf = type.types.map((t, i) => compileAt(t, ctx, ['allOf', i]));
+  } finally {
+    ctx.openObjects = openObjects;
+  }
+  if (closedObjects && !openObjects && supportsUnevaluated(ctx.options)) {
+    schema.unevaluatedProperties = false;
+  }
+  return schema;
+}
+
 /**
  * Compile object properties into a schema, shared by object types and merged intersections.
  */
 function compileObjectProperties(
   schema: JSONSchema,
   type: ts.Type,
-  typeChecker: ts.TypeChecker
+  ctx: CompileContext
 ): void {
+  const { typeChecker } = ctx;
+  const closed = ctx.options.closedObjects && !ctx.openObjects;
   schema.type = 'object';
   schema.properties = {};
   const required: string[] = [];
 
-  for (const prop of typeChecker.getPropertiesOfType(type)) {
-    const propName = prop.getName();
-    const propType = typeChecker.getTypeOfSymbol(prop);
+  // Property types are closed again
+  const { openObjects } = ctx;
+  ctx.openObjects = false;
+  try {
+    for (const prop of typeChecker.getPropertiesOfType(type)) {
+      const propName = prop.getName();
+      const propSchema = compileProperty(prop, ctx, [
+        'properties',
+        escapePointer(propName),
+      ]);
+      if (!propSchema) {
+        continue;
+      }
+
+      schema.properties[propName] = propSchema;
+      if (!isOptionalProperty(prop, ctx)) {
+        required.push(propName);
+      }
+    }
+
+    if (required.length > 0) {
+      schema.required = required;
+    }
+
+    compileIndexSignatures(schema, type, ctx);
+  } finally {
+    ctx.openObjects = openObjects;
+  }
+
+  if (closed && schema.additionalProperties === undefined) {
+    schema.additionalProperties = false;
+  }
+}
+
+/**
+ * Whether a type is `undefined` or a union including it
+ */
+function includesUndefined(type: ts.Type): boolean {
+  return type.isUnion()
+    ? type.types.some((t) => t.flags & ts.TypeFlags.Undefined)
+    : (type.flags & ts.TypeFlags.Undefined) !== 0;
+}
+
+/**
+ * Whether a property's type annotation explicitly includes `undefined`
+ */
+function declaresUndefined(
+  prop: ts.Symbol,
+  typeChecker: ts.TypeChecker
+): boolean {
+  const declaration = prop.valueDeclaration;
+  return (
+    !!declaration &&
+    (ts.isPropertySignature(declaration) ||
+      ts.isPropertyDeclaration(declaration) ||
+      ts.isParameter(declaration)) &&
+    !!declaration.type &&
+    includesUndefined(typeChecker.getTypeFromTypeNode(declaration.type))
+  );
+}
+
+/**
+ * Whether a property may be absent: declared optional, or including
+ * `undefined` when the `undefinedIsOptional` option is set
+ */
+export function isOptionalProperty(
+  prop: ts.Symbol,
+  ctx: CompileContext
+): boolean {
+  if (prop.flags & ts.SymbolFlags.Optional) {
+    return true;
+  }
+  return (
+    !!ctx.options.undefinedIsOptional &&
+    includesUndefined(ctx.typeChecker.getTypeOfSymbol(prop))
+  );
+}
+
+/**
+ * Whether a member is `private`, `protected` or a `#private` class member
+ */
+function isHiddenMember(prop: ts.Symbol): boolean {
+  return (prop.getDeclarations() ?? []).some((declaration) => {
+    const name = ts.getNameOfDeclaration(declaration);
+    return (
+      (name !== undefined && ts.isPrivateIdentifier(name)) ||
+      (ts.getCombinedModifierFlags(declaration) &
+        (ts.ModifierFlags.Private | ts.ModifierFlags.Protected)) !==
+        0
+    );
+  });
+}
+
+/**
+ * Whether a member is a method or a function-typed property
+ */
+function isFunctionMember(prop: ts.Symbol, typeChecker: ts.TypeChecker) {
+  if (prop.flags & ts.SymbolFlags.Method) {
+    return true;
+  }
+  const type = typeChecker.getNonNullableType(
+    typeChecker.getTypeOfSymbol(prop)
+  );
+  return type.getCallSignatures().length > 0;
+}
+
+/** Links the checker keeps on properties of mapped types (internal API) */
+interface MappedSymbolLinks {
+  links?: {
+    checkFlags?: number;
+    mappedType?: ts.Type;
+    syntheticOrigin?: ts.Symbol;
+  };
+}
+
+/** `CheckFlags.Readonly` of the checker's symbol links */
+const READONLY_CHECK_FLAG = 1 << 3;
+
+/**
+ * The property whose declaration documents a property. Mapped types with key
+ * remapping (`as`) create properties without declarations, linked to the
+ * original property only through the checker's symbol links.
+ */
+function getDocumentedProperty(prop: ts.Symbol): ts.Symbol {
+  let source: ts.Symbol | undefined = prop;
+  while (source && !source.getDeclarations()?.length) {
+    source = (source as ts.Symbol & MappedSymbolLinks).links?.syntheticOrigin;
+  }
+  return source ?? prop;
+}
+
+/**
+ * Whether a member is `readonly` or a getter without a setter
+ */
+function isReadOnlyMember(prop: ts.Symbol): boolean {
+  // Mapped types apply their own modifiers, e.g. `Readonly<T>` or `-readonly`
+  const { links } = prop as ts.Symbol & MappedSymbolLinks;
+  if (links?.mappedType) {
+    return ((links.checkFlags ?? 0) & READONLY_CHECK_FLAG) !== 0;
+  }
+  if (prop.flags & ts.SymbolFlags.GetAccessor) {
+    return !(prop.flags & ts.SymbolFlags.SetAccessor);
+  }
+  return (prop.getDeclarations() ?? []).some(
+    (declaration) =>
+      (ts.getCombinedModifierFlags(declaration) & ts.ModifierFlags.Readonly) !==
+      0
+  );
+}
+
+/** Union members before named unions were flattened into it (internal API) */
+interface UnionOrigin {
+  origin?: ts.Type;
+}
+
+/**
+ * The members of a union other than `undefined`, keeping the named unions and
+ * enums it was built from, such as `Status` of `Status | undefined`, whole
+ */
+function getDefinedMembers(type: ts.UnionType): ts.Type[] {
+  const { origin } = type as ts.UnionType & UnionOrigin;
+  const members = origin?.isUnion() ? origin.types : type.types;
+  return members.filter((t) => (t.flags & ts.TypeFlags.Undefined) === 0);
+}
+
+/**
+ * Compile a property with its description and JSDoc tags, located at the given
+ * schema path segments. Returns undefined for properties marked `@ignore`,
+ * `private`/`protected`/`#private` members, methods and function-typed properties.
+ */
+export function compileProperty(
+  prop: ts.Symbol,
+  ctx: CompileContext,
+  segments: readonly (string | number)[]
+): JSONSchema | undefined {
+  const { typeChecker, options } = ctx;
+  const isOptional = isOptionalProperty(prop, ctx);
+  const documented = getDocumentedProperty(prop);
+  const propNode =
+    documented.valueDeclaration ?? documented.getDeclarations()?.[0];
 
-    const isOptional = (prop.flags & ts.SymbolFlags.Optional) !== 0;
+  if (isHiddenMember(prop)) {
+    return undefined;
+  }
+  if (isFunctionMember(prop, typeChecker)) {
+    if (options.functionMembers === 'error') {
+      withLocation(ctx, segments, propNode, () =>
+        fail(
+          ctx,
+          'function-member',
+          `Function member is not supported: ${prop.getName()}`
+        )
+      );
+    }
+    return undefined;
+  }
 
+  const propTags = extractJSDocTags(documented, typeChecker);
+  if (propTags.has('ignore')) {
     if (!isOptional) {
-      required.push(propName);
+      fail(
+        ctx,
+        'ignored-required-property',
+        `Cannot ignore required property: ${prop.getName()}`,
+        propNode
+      );
     }
+    return undefined;
+  }
 
-    const propTags = extractJSDocTags(prop, typeChecker);
-    if (propTags.has('ignore')) {
-      if (!isOptional) {
-        throw new Error(`Cannot ignore required property: ${propName}`);
-      }
+  const propType = typeChecker.getTypeOfSymbol(prop);
+  if (
+    propType.flags & ts.TypeFlags.Undefined &&
+    options.undefinedAs === 'omit'
+  ) {
+    return undefined;
+  }
+  // With exactOptionalPropertyTypes, `x?: T | undefined` allows an explicit
+  // `undefined` beyond the property being absent
+  const keepUndefined =
+    options.exactOptionalPropertyTypes &&
+    prop.flags & ts.SymbolFlags.Optional &&
+    declaresUndefined(prop, typeChecker);
+  const propSchema = compileAt(
+    propType,
+    ctx,
+    segments,
+    isOptional && !keepUndefined,
+    propNode
+  );
+
+  const propDescription = getDescription(documented, typeChecker);
+  withLocation(ctx, segments, propNode, () =>
+    applyTags(propSchema, propTags, propDescription, ctx)
+  );
+  if (isReadOnlyMember(prop)) {
+    propSchema.readOnly = true;
+  }
+  return propSchema;
+}
+
+/**
+ * Compile index signatures: `string` keys into `additionalProperties`,
+ * template literal and `number` keys into `patternProperties`.
+ */
+function compileIndexSignatures(
+  schema: JSONSchema,
+  type: ts.Type,
+  ctx: CompileContext
+): void {
+  const { typeChecker } = ctx;
+
+  for (const info of typeChecker.getIndexInfosOfType(type)) {
+    const { keyType } = info;
+    if (keyType.flags & ts.TypeFlags.ESSymbolLike) {
       continue;
     }
 
-    schema.properties[propName] = compile(propType, typeChecker, {
-      ignoreUndefinedInUnion: isOptional,
-    });
+    const isStringKey = (keyType.flags & ts.TypeFlags.String) !== 0;
+    const pattern = isStringKey
+      ? undefined
+      : getTemplatePattern(keyType, typeChecker);
+    if (!isStringKey && pattern === undefined) {
+      fail(
+        ctx,
+        'unsupported-index-key',
+        `Unsupported index signature key type: ${typeChecker.typeToString(keyType)}`,
+        info.declaration ?? ctx.node
+      );
+      continue;
+    }
 
-    const propDescription = getDescription(prop, typeChecker);
-    applyJSDocTags(schema.properties[propName], propTags, propDescription);
-  }
+    const valueSchema: JSONSchema | boolean =
+      info.type.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)
+        ? true
+        : compileAt(
+            info.type,
+            ctx,
+            pattern === undefined
+              ? ['additionalProperties']
+              : ['patternProperties', escapePointer(pattern)],
+            false,
+            info.declaration
+          );
+
+    if (pattern === undefined) {
+      schema.additionalProperties = valueSchema;
+      continue;
+    }
 
-  if (required.length > 0) {
-    schema.required = required;
+    schema.patternProperties ??= {};
+    schema.patternProperties[pattern] = valueSchema === true ? {} : valueSchema;
   }
 }
 
@@ -79,7 +1253,7 @@ const PRIMITIVE_TYPES: [number, JSONSchema['type']][] = [
 const LITERAL_TYPES: [
   number,
   JSONSchema['type'],
-  (t: ts.Type, tc: ts.TypeChecker) => unknown,
+  (t: ts.Type, tc: ts.TypeChecker) => string | number | boolean,
 ][] = [
   [
     ts.TypeFlags.StringLiteral,
@@ -98,41 +1272,430 @@ const LITERAL_TYPES: [
   ],
 ];
 
+/** String types that can only be represented by a pattern */
+const STRING_PATTERN_TYPES =
+  ts.TypeFlags.TemplateLiteral | ts.TypeFlags.StringMapping;
+
 /**
  * Compile a TypeScript type to JSON Schema
  */
 export function compile(
   type: ts.Type,
   typeChecker: ts.TypeChecker,
-  options?: {
-    ignoreUndefinedInUnion?: boolean;
-  }
+  options: CompileOptions = {}
 ): JSONSchema {
-  if (!options?.ignoreUndefinedInUnion && type.isUnion()) {
-    const unionTypes = type.types.filter(
+  const ctx = createContext(typeChecker, options);
+  ctx.node = getTypeDeclaration(type);
+  const schema = compileSubschema(
+    getRootType(type),
+    ctx,
+    options.ignoreUndefinedInUnion
+  );
+  return finishSchema(schema, ctx);
+}
+
+/**
+ * The type a root schema describes: a document is never `undefined`, so an
+ * object type unioned with it stands for the object type itself
+ */
+function getRootType(type: ts.Type): ts.Type {
+  if (type.isUnion()) {
+    const [defined, ...others] = type.types.filter(
       (t) => (t.flags & ts.TypeFlags.Undefined) === 0
     );
+    if (defined && others.length === 0 && defined.flags & ts.TypeFlags.Object) {
+      return defined;
+    }
+  }
+  return type;
+}
 
-    const singleUnionType = unionTypes[0];
-    if (unionTypes.length === 1 && singleUnionType) {
-      if (singleUnionType.flags & ts.TypeFlags.Object) {
-        return compile(singleUnionType, typeChecker);
-      }
+/**
+ * Compile a TypeScript type to JSON Schema, collecting every problem instead
+ * of throwing at the first one. Failing parts are left as `{}` placeholders.
+ */
+export function compileWithDiagnostics(
+  type: ts.Type,
+  typeChecker: ts.TypeChecker,
+  options: CompileOptions = {}
+): { schema: JSONSchema; diagnostics: Diagnostic[] } {
+  const ctx = createContext(typeChecker, options);
+  const diagnostics: Diagnostic[] = [];
+  ctx.diagnostics = diagnostics;
+  ctx.node = getTypeDeclaration(type);
+  const schema = compileSubschema(
+    getRootType(type),
+    ctx,
+    options.ignoreUndefinedInUnion
+  );
+  return { schema: finishSchema(schema, ctx), diagnostics };
+}
+
+/**
+ * Create the state for a compilation that may span several root types
+ */
+export function createContext(
+  typeChecker: ts.TypeChecker,
+  options: CompileOptions
+): CompileContext {
+  return {
+    typeChecker,
+    options,
+    definitions: new Map(),
+    definitionNames: new Map(),
+    visiting: new Set(),
+    path: [],
+    cache: getSchemaCache(typeChecker, options),
+    references: [],
+  };
+}
+
+/**
+ * Copy of a schema whose `$ref`s to renamed definitions point at their new keys
+ */
+function renameReferences<T>(
+  value: T,
+  renames: ReadonlyMap<string, string>
+): T {
+  if (Array.isArray(value)) {
+    return value.map((item) => renameReferences(item, renames)) as T;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const copy: { [key: string]: unknown } = {};
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] =
+        key === '$ref' && typeof item === 'string'
+          ? (renames.get(item) ?? item)
+          : renameReferences(item, renames);
+    }
+    return copy as T;
+  }
+  return value;
+}
+
+/**
+ * Add the hoisted definitions to the `definitions` option, which may already
+ * hold the definitions of earlier compilations. A key holding a different
+ * schema there is a name collision: reported with `nameCollisions: 'error'`,
+ * otherwise the new definition takes the first suffixed key that is free or
+ * holds the same schema. Returns the root schema with its references to
+ * renamed definitions updated.
+ */
+function mergeDefinitions(
+  schema: JSONSchema,
+  target: { [name: string]: JSONSchema },
+  ctx: CompileContext
+): JSONSchema {
+  const canTake = (key: string, definition: JSONSchema) =>
+    target[key] === undefined ||
+    JSON.stringify(target[key]) === JSON.stringify(definition);
+
+  const keys = new Map<string, string>();
+  const renames = new Map<string, string>();
+  for (const [name, definition] of ctx.definitions) {
+    if (canTake(name, definition)) {
+      keys.set(name, name);
+      continue;
+    }
+    if (ctx.options.nameCollisions === 'error') {
+      const [type] =
+        [...ctx.definitionNames].find(([, key]) => key === name) ?? [];
+      ctx.path = [
+        ...getDefinitionsPath(ctx.options.target),
+        escapePointer(name),
+      ];
+      fail(
+        ctx,
+        'name-collision',
+        `Definition name ${name} is already used by a different schema in definitions`,
+        (type && getTypeDeclaration(type)) ?? ctx.node
+      );
+      ctx.path = [];
+      continue;
+    }
+    const taken = new Set([...ctx.definitions.keys(), ...keys.values()]);
+    let key = name;
+    for (let i = 2; taken.has(key) || !canTake(key, definition); i++) {
+      key = `${name}_${i}`;
+    }
+    keys.set(name, key);
+    renames.set(refTo(name, ctx), refTo(key, ctx));
+  }
+
+  for (const [name, key] of keys) {
+    target[key] = renameReferences(ctx.definitions.get(name)!, renames);
+  }
+  return renameReferences(schema, renames);
+}
+
+/**
+ * Attach the hoisted definitions and `$schema` to a root schema
+ */
+export function finishSchema(
+  schema: JSONSchema,
+  ctx: CompileContext
+): JSONSchema {
+  const { options } = ctx;
+
+  if (ctx.definitions.size > 0) {
+    const definitions = Object.fromEntries(ctx.definitions);
+    if (options.definitions) {
+      schema = mergeDefinitions(schema, options.definitions, ctx);
+    } else if (isOpenAPI(options.target)) {
+      fail(
+        ctx,
+        'missing-definitions',
+        'OpenAPI targets require the definitions option to collect referenced schemas'
+      );
+    } else if (options.target === 'draft-07') {
+      schema.definitions = definitions;
+    } else {
+      schema.$defs = definitions;
+    }
+  }
+
+  const schemaUri = options.target && SCHEMA_URIS[options.target];
+  return schemaUri ? { $schema: schemaUri, ...schema } : schema;
+}
+
+/**
+ * Run the custom and standard library mappers, returning the first match
+ */
+function applyMappers(
+  type: ts.Type,
+  ctx: CompileContext
+): JSONSchema | undefined {
+  const { mappers = [], standardMappers: useStandard = true } = ctx.options;
+  const context = {
+    typeChecker: ctx.typeChecker,
+    options: ctx.options,
+    compile: (inner: ts.Type) => compileSubschema(inner, ctx),
+  };
+  for (const mapper of useStandard
+    ? [...mappers, ...standardMappers]
+    : mappers) {
+    const schema = mapper(type, context);
+    if (schema) {
+      // Mappers may return shared objects, later steps mutate the result
+      return { ...schema };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Run a step with the location moved to a nested schema and, when given, a declaration
+ */
+function withLocation<T>(
+  ctx: CompileContext,
+  segments: readonly (string | number)[],
+  node: ts.Node | undefined,
+  step: () => T
+): T {
+  const outerNode = ctx.node;
+  ctx.path.push(...segments.map(String));
+  ctx.node = node ?? outerNode;
+  try {
+    return step();
+  } finally {
+    ctx.path.length -= segments.length;
+    ctx.node = outerNode;
+  }
+}
+
+/**
+ * Compile a nested type, locating diagnostics at the given schema path segments
+ * (already escaped) and declaration.
+ */
+export function compileAt(
+  type: ts.Type,
+  ctx: CompileContext,
+  segments: readonly (string | number)[],
+  ignoreUndefinedInUnion = false,
+  node?: ts.Node
+): JSONSchema {
+  return withLocation(ctx, segments, node, () =>
+    compileSubschema(type, ctx, ignoreUndefinedInUnion)
+  );
+}
+
+/** Lower and upper bound keywords that must not cross */
+const BOUNDS = [
+  ['minimum', 'maximum'],
+  ['minLength', 'maxLength'],
+  ['minItems', 'maxItems'],
+] as const;
+
+/**
+ * Apply JSDoc tags, reporting tags rejected by the unknown tag policy and
+ * bounds that no value satisfies
+ */
+function applyTags(
+  schema: JSONSchema,
+  tags: Map<string, string[]>,
+  description: string | undefined,
+  ctx: CompileContext
+): void {
+  const rejected = applyJSDocTags(schema, tags, description, ctx.options);
+  for (const tagName of rejected) {
+    fail(ctx, 'unknown-tag', `Unknown JSDoc tag: @${tagName}`);
+  }
+  for (const [min, max] of BOUNDS) {
+    const lower = schema[min];
+    const upper = schema[max];
+    if (lower !== undefined && upper !== undefined && lower > upper) {
+      fail(
+        ctx,
+        'impossible-type',
+        `Conflicting constraints: ${min} ${lower} is greater than ${max} ${upper}`
+      );
+    }
+  }
+
+  // OpenAPI 3.0 has a single `example` and no `$comment`
+  if (ctx.options.target === 'openapi-3.0') {
+    if (schema.examples) {
+      schema.example = schema.examples[0];
+      delete schema.examples;
+    }
+    delete schema.$comment;
+  }
+}
+
+/**
+ * Compile a type within an ongoing compilation, hoisting it into the
+ * definitions when references are enabled.
+ */
+export function compileSubschema(
+  type: ts.Type,
+  ctx: CompileContext,
+  ignoreUndefinedInUnion = false
+): JSONSchema {
+  // Branches of conditional types see their check type as a substitution
+  if (type.flags & ts.TypeFlags.Substitution) {
+    return compileSubschema(
+      (type as ts.SubstitutionType).baseType,
+      ctx,
+      ignoreUndefinedInUnion
+    );
+  }
+
+  // Optional properties are compiled as the named type they were declared with
+  if (ignoreUndefinedInUnion && type.isUnion()) {
+    const defined = getDefinedMembers(type);
+    if (defined.length === 1) {
+      return compileSubschema(defined[0]!, ctx);
+    }
+  }
+
+  const mapped = applyMappers(type, ctx);
+  if (mapped) {
+    return mapped;
+  }
+
+  // Open members of a closed intersection are inlined, since their hoisted
+  // definitions are closed
+  if (
+    ctx.options.useReferences &&
+    !ctx.openObjects &&
+    !(ignoreUndefinedInUnion && type.isUnion())
+  ) {
+    const reference = compileReference(type, ctx);
+    if (reference) {
+      return reference;
+    }
+  }
+
+  if (!(type.flags & ts.TypeFlags.Object)) {
+    return compileCached(type, ctx, ignoreUndefinedInUnion);
+  }
+
+  if (ctx.visiting.has(type)) {
+    fail(
+      ctx,
+      'recursive-type',
+      `Recursive type requires the useReferences option: ${ctx.typeChecker.typeToString(type)}`
+    );
+    return {};
+  }
+  ctx.visiting.add(type);
+  try {
+    return compileCached(type, ctx, ignoreUndefinedInUnion);
+  } finally {
+    ctx.visiting.delete(type);
+  }
+}
+
+/**
+ * Compile the schema of a type itself, without hoisting it
+ */
+function compileInline(
+  type: ts.Type,
+  ctx: CompileContext,
+  ignoreUndefinedInUnion = false
+): JSONSchema {
+  const { typeChecker } = ctx;
+
+  // Type parameters of a generic declaration compiled as a template
+  if (type.flags & ts.TypeFlags.TypeParameter) {
+    const name = type.getSymbol()?.getName() ?? typeChecker.typeToString(type);
+    const supplied = ctx.options.typeArguments?.[name];
+    if (supplied) {
+      return { ...supplied };
     }
+    fail(
+      ctx,
+      'unresolved-type-parameter',
+      `Uninstantiated type parameter: ${name}; compile an instantiation or pass it in typeArguments`
+    );
+    return {};
+  }
+
+  // The checker resolves conditional types unless they depend on a type parameter
+  if (type.flags & ts.TypeFlags.Conditional) {
+    fail(
+      ctx,
+      'unresolved-type-parameter',
+      `Unresolved conditional type: ${typeChecker.typeToString(type)}; compile an instantiation`
+    );
+    return {};
   }
 
   const schema: JSONSchema = {};
+  if (ctx.options.titles) {
+    const declaration = getDeclarationSymbol(type, typeChecker);
+    if (declaration) {
+      schema.title = declaration.getName();
+    }
+  }
 
   // Get symbol for JSDoc extraction
   const symbol = type.getSymbol() || type.aliasSymbol;
   const tags = extractJSDocTags(symbol, typeChecker);
   const description = getDescription(symbol, typeChecker);
 
+  if (type.flags & ts.TypeFlags.Never) {
+    fail(ctx, 'impossible-type', 'Impossible type: never');
+    return schema;
+  }
+
+  if (
+    type.flags & ts.TypeFlags.Undefined &&
+    ctx.options.undefinedAs === 'omit'
+  ) {
+    fail(
+      ctx,
+      'unsupported-type',
+      'Type undefined has no JSON representation with undefinedAs: omit'
+    );
+    return schema;
+  }
+
   // Handle primitive types (string, number, boolean, null, undefined)
   for (const [flag, schemaType] of PRIMITIVE_TYPES) {
     if (type.flags & flag) {
       schema.type = schemaType;
-      applyJSDocTags(schema, tags, description);
+      applyTags(schema, tags, description, ctx);
       return schema;
     }
   }
@@ -141,8 +1704,21 @@ export function compile(
   for (const [flag, schemaType, getValue] of LITERAL_TYPES) {
     if (type.flags & flag) {
       schema.type = schemaType;
-      schema.const = getValue(type, typeChecker);
-      applyJSDocTags(schema, tags, description);
+      setConst(schema, getValue(type, typeChecker), ctx);
+      applyTags(schema, tags, description, ctx);
+      return schema;
+    }
+  }
+
+  // Handle template literal types as string patterns
+  if (type.flags & STRING_PATTERN_TYPES) {
+    const pattern = getTemplatePattern(type, typeChecker);
+    if (pattern !== undefined) {
+      schema.type = 'string';
+      if (pattern !== `^${STRING_PATTERN}$`) {
+        schema.pattern = pattern;
+      }
+      applyTags(schema, tags, description, ctx);
       return schema;
     }
   }
@@ -150,12 +1726,22 @@ export function compile(
   // Handle enum type
   if (type.flags & ts.TypeFlags.EnumLike || type.flags & ts.TypeFlags.Enum) {
     if (type.isUnion()) {
-      const enumValues = type.types
-        .map((t) => extractLiteralValue(t, typeChecker, false))
-        .filter((v): v is string | number => v !== undefined);
-      if (enumValues.length > 0) {
-        schema.enum = enumValues;
-        applyJSDocTags(schema, tags, description);
+      const members: EnumOption[] = [];
+      for (const t of type.types) {
+        const value = extractLiteralValue(t, typeChecker, false);
+        if (value === undefined) {
+          fail(
+            ctx,
+            'unsupported-type',
+            `Enum member has a computed value: ${typeChecker.typeToString(t)}`
+          );
+          continue;
+        }
+        members.push({ value, member: getEnumMember(t) });
+      }
+      if (members.length > 0) {
+        setEnum(schema, members, ctx);
+        applyTags(schema, tags, description, ctx);
         return schema;
       }
     }
@@ -163,39 +1749,15 @@ export function compile(
 
   // Handle union types as enums if they are literal types
   if (type.isUnion()) {
-    const unionTypes = options?.ignoreUndefinedInUnion
+    const unionTypes = ignoreUndefinedInUnion
       ? type.types.filter((t) => (t.flags & ts.TypeFlags.Undefined) === 0)
       : type.types;
 
-    if (unionTypes.length === 1) {
-      const [singleUnionType] = unionTypes;
-      if (singleUnionType) {
-        return compile(singleUnionType, typeChecker);
-      }
-    }
-
-    const enumValues: (string | number | boolean)[] = [];
-    let allLiterals = true;
-
-    for (const unionType of unionTypes) {
-      const value = extractLiteralValue(unionType, typeChecker, true);
-      if (value !== undefined) {
-        enumValues.push(value);
-      } else {
-        allLiterals = false;
-        break;
-      }
-    }
-
-    if (allLiterals && enumValues.length > 0) {
-      schema.enum = enumValues;
-      applyJSDocTags(schema, tags, description);
-      return schema;
+    const result = compileUnionTypes(schema, unionTypes, ctx);
+    if (result === schema) {
+      applyTags(schema, tags, description, ctx);
     }
-
-    throw new Error(
-      'Complex union types are not supported. Only literal type unions (enums) are supported.'
-    );
+    return result;
   }
 
   // Handle array type
@@ -211,46 +1773,38 @@ export function compile(
         }
       ).resolvedTypeArguments;
     if (Array.isArray(typeArguments) && typeArguments.length > 0) {
-      schema.items = compile(typeArguments[0], typeChecker);
+      schema.items = compileAt(typeArguments[0], ctx, ['items']);
     }
 
-    applyJSDocTags(schema, tags, description);
+    applyTags(schema, tags, description, ctx);
     return schema;
   }
 
   // Handle tuple type
   if (typeChecker.isTupleType(type)) {
-    throw new Error('Tuple types are not supported.');
+    compileTuple(schema, type as ts.TypeReference, ctx);
+    applyTags(schema, tags, description, ctx);
+    return schema;
   }
 
   // Handle object type
   if (type.flags & ts.TypeFlags.Object) {
-    compileObjectProperties(schema, type, typeChecker);
-    applyJSDocTags(schema, tags, description);
+    compileObjectProperties(schema, type, ctx);
+    applyTags(schema, tags, description, ctx);
     return schema;
   }
 
-  // Handle intersection types using allOf
+  // Handle intersection types
   if (type.isIntersection()) {
-    const allObjects = type.types.every(
-      (t) =>
-        t.flags & ts.TypeFlags.Object &&
-        !typeChecker.isArrayType(t) &&
-        !typeChecker.isTupleType(t)
-    );
-
-    if (allObjects) {
-      compileObjectProperties(schema, type, typeChecker);
-      applyJSDocTags(schema, tags, description);
-      return schema;
-    }
-
-    // For mixed intersections, use allOf
-    schema.allOf = type.types.map((t) => compile(t, typeChecker));
-    applyJSDocTags(schema, tags, description);
-    return schema;
+    const result = compileIntersection(schema, type, ctx);
+    applyTags(schema, tags, description, ctx);
+    return result;
   }
 
-  // Unsupported type
-  throw new Error(`Unsupported type: ${typeChecker.typeToString(type)}`);
+  fail(
+    ctx,
+    'unsupported-type',
+    `Unsupported type: ${typeChecker.typeToString(type)}`
+  );
+  return schema;
 }
@@ -0,0 +1,42 @@
+import type ts from 'typescript';
+import type { Diagnostic } from './types';
+
+/**
+ * Format a node position as `file:line:column`
+ */
+export function formatLocation(node: ts.Node): string {
+  const sourceFile = node.getSourceFile();
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(
+    node.getStart(sourceFile)
+  );
+  return `${sourceFile.fileName}:${line + 1}:${character + 1}`;
+}
+
+/**
+ * Format a diagnostic as its message followed by the schema path and source location
+ */
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  const where: string[] = [];
+  if (diagnostic.path) {
+    where.push(`at ${diagnostic.path}`);
+  }
+  if (diagnostic.node) {
+    where.push(formatLocation(diagnostic.node));
+  }
+  return where.length > 0
+    ? `${diagnostic.message} (${where.join(', ')})`
+    : diagnostic.message;
+}
+
+/**
+ * Error thrown for the first diagnostic when diagnostics are not collected
+ */
+export class CompileError extends Error {
+  readonly diagnostic: Diagnostic;
+
+  constructor(diagnostic: Diagnostic) {
+    super(formatDiagnostic(diagnostic));
+    this.name = 'CompileError';
+    this.diagnostic = diagnostic;
+  }
+}
@@ -0,0 +1,594 @@
+import { BIGINT_PATTERN, NUMBER_PATTERN, STRING_PATTERN } from './template';
+import type { JSONSchema } from './types';
+
+/**
+ * Options for emitTypeScript
+ */
+export interface EmitOptions {
+  /** Name of the root declaration, defaults to `Schema` */
+  name?: string;
+  /** Add `export` to every declaration, defaults to true */
+  export?: boolean;
+}
+
+/** Prefixes of `$ref` pointers into the definitions containers */
+const REF_PREFIXES = ['#/$defs/', '#/definitions/', '#/components/schemas/'];
+
+/** Pattern emitted for `number` keys of index signatures */
+const NUMBER_KEY_PATTERN = `^${NUMBER_PATTERN}$`;
+
+/** Patterns emitted for the holes of template literal types */
+const HOLE_PATTERNS = [
+  [STRING_PATTERN, 'string'],
+  // Before `bigint`, whose pattern is a prefix of this one
+  [NUMBER_PATTERN, 'number'],
+  [BIGINT_PATTERN, 'bigint'],
+] as const;
+
+/** Characters with a special meaning in regular expressions */
+const REGEXP_SPECIAL = '.*+?^${}()|[]\\';
+
+/** Keywords turned back into the JSDoc tags read by applyJSDocTags */
+const TAG_KEYWORDS = [
+  'minimum',
+  'maximum',
+  'multipleOf',
+  'minLength',
+  'maxLength',
+  'pattern',
+  'format',
+  'minItems',
+  'maxItems',
+] as const;
+
+/**
+ * Turn a definition key into a valid type name
+ */
+function toTypeName(key: string): string {
+  const name = key.replace(/[^\w$]/g, '_');
+  return /^\d/.test(name) ? `_${name}` : name;
+}
+
+/**
+ * Property name as written in a type literal, quoted when not an identifier
+ */
+function toPropertyName(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * Shared state of one emitTypeScript call
+ */
+interface EmitContext {
+  /** Add `export` to every declaration */
+  exported: boolean;
+  /** Names of the declarations emitted so far */
+  names: Set<string>;
+  /** Names of the enums hoisted out of inline schemas, by serialized schema */
+  enums: Map<string, string>;
+  /** Declarations of the hoisted enums */
+  hoisted: string[];
+}
+
+/**
+ * Resolve a `$ref` into the name of the referenced declaration
+ */
+function refToTypeName(ref: string): string {
+  const prefix = REF_PREFIXES.find((p) => ref.startsWith(p));
+  if (!prefix) {
+    throw new Error(`Unsupported $ref: ${ref}`);
+  }
+  const key = decodeURIComponent(ref.slice(prefix.length))
+    .replace(/~1/g, '/')
+    .replace(/~0/g, '~');
+  return toTypeName(key);
+}
+
+/**
+ * Escape comment terminators so that text cannot end the JSDoc comment it
+ * is written into
+ */
+function escapeComment(text: string): string {
+  return text.replace(/\*\//g, '*\\/');
+}
+
+/**
+ * Invert an anchored pattern built from a template literal type back into
+ * that type, or undefined when the pattern has no such form. Patterns without
+ * any hole, or matching every string, compile from other types.
+ */
+function patternToTemplateType(pattern: string): string | undefined {
+  if (!pattern.startsWith('^') || !pattern.endsWith('$')) {
+    return undefined;
+  }
+  const body = pattern.slice(1, -1);
+  let text = '';
+  let holes = 0;
+  for (let i = 0; i < body.length; ) {
+    const hole = HOLE_PATTERNS.find(([source]) => body.startsWith(source, i));
+    if (hole) {
+      text += `\${${hole[1]}}`;
+      holes++;
+      i += hole[0].length;
+      continue;
+    }
+    let char = body[i]!;
+    if (char === '\\') {
+      char = body[i + 1] ?? '';
+      if (!char || !REGEXP_SPECIAL.includes(char)) {
+        return undefined;
+      }
+      i++;
+    } else if (REGEXP_SPECIAL.includes(char)) {
+      return undefined;
+    }
+    text += /[`\\$]/.test(char) ? `\\${char}` : char;
+    i++;
+  }
+  return holes > 0 && text !== '${string}' ? `\`${text}\`` : undefined;
+}
+
+/**
+ * Template literal type of a string schema whose pattern was built from one
+ */
+function getTemplateType(schema: JSONSchema): string | undefined {
+  return schema.type === 'string' && schema.pattern !== undefined
+    ? patternToTemplateType(schema.pattern)
+    : undefined;
+}
+
+/**
+ * Patterns of an object schema that no index signature can express, with
+ * the schemas of their values
+ */
+function getTagPatternProperties(schema: JSONSchema): [string, JSONSchema][] {
+  return Object.entries(schema.patternProperties ?? {}).filter(
+    ([pattern]) =>
+      pattern !== NUMBER_KEY_PATTERN &&
+      patternToTemplateType(pattern) === undefined
+  );
+}
+
+/**
+ * Convert kebab-case to camelCase
+ */
+function kebabToCamel(str: string): string {
+  return str.replace(/-([a-z])/g, (_, char: string) => char.toUpperCase());
+}
+
+/**
+ * Build the JSDoc comment of a schema: its description followed by the tags
+ * that compile it back to the same keywords, or undefined when there is none.
+ * Read-only members use the `readonly` modifier instead of a tag.
+ */
+function getJSDoc(
+  schema: JSONSchema,
+  indent: string,
+  member = false
+): string | undefined {
+  const lines: string[] = [];
+  if (schema.description) {
+    lines.push(...schema.description.split('\n'));
+  }
+  if (schema.title !== undefined) {
+    lines.push(`@title ${schema.title}`);
+  }
+  for (const example of schema.examples ?? []) {
+    lines.push(`@example ${JSON.stringify(example)}`);
+  }
+  if (schema.deprecated) {
+    lines.push('@deprecated');
+  }
+  if (schema.readOnly && !member) {
+    lines.push('@readonly');
+  }
+  if (schema.writeOnly) {
+    lines.push('@writeonly');
+  }
+  if (schema.$comment !== undefined) {
+    lines.push(`@comment ${schema.$comment}`);
+  }
+  if (
+    schema.type === 'integer' ||
+    (Array.isArray(schema.type) && schema.type.includes('integer'))
+  ) {
+    lines.push('@integer');
+  }
+  // The template literal type carries the pattern instead
+  const templated = getTemplateType(schema) !== undefined;
+  for (const keyword of TAG_KEYWORDS) {
+    if (
+      schema[keyword] !== undefined &&
+      !(templated && keyword === 'pattern')
+    ) {
+      lines.push(`@${keyword} ${schema[keyword]}`);
+    }
+  }
+  if (schema.default !== undefined) {
+    lines.push(`@default ${JSON.stringify(schema.default)}`);
+  }
+  const patternProperties = getTagPatternProperties(schema);
+  if (patternProperties.length > 0) {
+    lines.push(
+      `@patternProperties ${JSON.stringify(Object.fromEntries(patternProperties))}`
+    );
+  }
+  for (const [key, value] of Object.entries(schema)) {
+    if (key.startsWith('x-')) {
+      const text = typeof value === 'string' ? value : JSON.stringify(value);
+      lines.push(`@${kebabToCamel(key.slice(2))} ${text}`);
+    }
+  }
+
+  if (lines.length === 0) {
+    return undefined;
+  }
+  const escaped = lines.map(escapeComment);
+  if (escaped.length === 1) {
+    return `${indent}/** ${escaped[0]} */\n`;
+  }
+  return `${indent}/**\n${escaped.map((line) => `${indent} * ${line}`.trimEnd()).join('\n')}\n${indent} */\n`;
+}
+
+/**
+ * Whether a type has a top-level union or intersection operator
+ */
+function isCompound(type: string): boolean {
+  let depth = 0;
+  let quoted = false;
+  for (let i = 0; i < type.length; i++) {
+    const char = type[i];
+    if (quoted) {
+      if (char === '\\') {
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === '{' || char === '[' || char === '(') {
+      depth++;
+    } else if (char === '}' || char === ']' || char === ')') {
+      depth--;
+    } else if (depth === 0 && (char === '|' || char === '&')) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Wrap union and intersection types that would bind incorrectly as an operand
+ */
+function parenthesize(type: string): string {
+  return isCompound(type) ? `(${type})` : type;
+}
+
+/**
+ * Emit a union of distinct member types
+ */
+function union(types: string[]): string {
+  const unique = [...new Set(types)];
+  return unique.length === 0 ? 'never' : unique.join(' | ');
+}
+
+/**
+ * Turn a property name into the start of a type name
+ */
+function capitalize(key: string): string {
+  const name = toTypeName(key);
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+/**
+ * Emit the type literal of an object schema. Key patterns inverted into
+ * template literal types become index signatures, other patterns are left
+ * to the `@patternProperties` tag of getJSDoc.
+ */
+function emitObject(
+  schema: JSONSchema,
+  indent: string,
+  ctx: EmitContext,
+  hint: string
+): string {
+  const inner = `${indent}  `;
+  const required = new Set(schema.required ?? []);
+  const members: string[] = [];
+
+  for (const [key, property] of Object.entries(schema.properties ?? {})) {
+    const optional = required.has(key) ? '' : '?';
+    const readonly = property.readOnly ? 'readonly ' : '';
+    const type = emitType(property, inner, ctx, hint + capitalize(key));
+    members.push(
+      (getJSDoc(property, inner, true) ?? '') +
+        `${inner}${readonly}${toPropertyName(key)}${optional}: ${type};\n`
+    );
+  }
+
+  const indexTypes = new Map<string, string[]>();
+  for (const [pattern, value] of Object.entries(
+    schema.patternProperties ?? {}
+  )) {
+    const keyType =
+      pattern === NUMBER_KEY_PATTERN
+        ? 'number'
+        : patternToTemplateType(pattern);
+    if (keyType) {
+      indexTypes.set(keyType, [
+        ...(indexTypes.get(keyType) ?? []),
+        emitType(value, inner, ctx, `${hint}Value`),
+      ]);
+    }
+  }
+  const { additionalProperties } = schema;
+  if (additionalProperties !== undefined && additionalProperties !== false) {
+    indexTypes.set('string', [
+      ...(indexTypes.get('string') ?? []),
+      emitType(additionalProperties, inner, ctx, `${hint}Value`),
+    ]);
+  }
+  for (const [keyType, types] of indexTypes) {
+    members.push(`${inner}[key: ${keyType}]: ${union(types)};\n`);
+  }
+
+  return members.length > 0 ? `{\n${members.join('')}${indent}}` : '{}';
+}
+
+/**
+ * Emit a tuple from positional items and the schema of the remaining items
+ */
+function emitTuple(
+  items: JSONSchema[],
+  rest: JSONSchema | boolean | undefined,
+  minItems: number,
+  indent: string,
+  ctx: EmitContext,
+  hint: string
+): string {
+  const elements = items.map((item, index) => {
+    const optional = index >= minItems ? '?' : '';
+    const type = emitType(item, indent, ctx, hint);
+    // Labels compile to element descriptions
+    return item.description && /^[A-Za-z_$][\w$]*$/.test(item.description)
+      ? `${item.description}${optional}: ${type}`
+      : `${optional ? parenthesize(type) : type}${optional}`;
+  });
+  if (rest !== undefined && rest !== false) {
+    elements.push(`...${parenthesize(emitType(rest, indent, ctx, hint))}[]`);
+  }
+  return `[${elements.join(', ')}]`;
+}
+
+/**
+ * Emit the TypeScript type of a schema. The hint names the enums hoisted out
+ * of it.
+ */
+function emitType(
+  schema: JSONSchema | boolean,
+  indent: string,
+  ctx: EmitContext,
+  hint: string
+): string {
+  if (schema === true) {
+    return 'unknown';
+  }
+  if (schema === false) {
+    return 'never';
+  }
+
+  const base = emitBaseType(schema, indent, ctx, hint);
+  return schema.nullable ? union([base, 'null']) : base;
+}
+
+/**
+ * Emit the type of a schema without OpenAPI 3.0 nullability
+ */
+function emitBaseType(
+  schema: JSONSchema,
+  indent: string,
+  ctx: EmitContext,
+  hint: string
+): string {
+  if (schema.$ref) {
+    return refToTypeName(schema.$ref);
+  }
+  if (schema.const !== undefined) {
+    return JSON.stringify(schema.const);
+  }
+  if (schema.enum) {
+    return union(schema.enum.map((value) => JSON.stringify(value)));
+  }
+  if (getEnumMembers(schema)) {
+    return hoistEnum(schema, ctx, hint);
+  }
+  if (schema.anyOf || schema.oneOf) {
+    const members = (schema.anyOf ?? schema.oneOf)!;
+    return union(members.map((member) => emitType(member, indent, ctx, hint)));
+  }
+  if (schema.allOf) {
+    return schema.allOf
+      .map((member) => parenthesize(emitType(member, indent, ctx, hint)))
+      .join(' & ');
+  }
+
+  if (Array.isArray(schema.type)) {
+    return union(
+      // The pattern stays a tag, since only a plain string type carries it
+      schema.type.map((type) =>
+        emitBaseType({ ...schema, type, pattern: undefined }, indent, ctx, hint)
+      )
+    );
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return getTemplateType(schema) ?? 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array': {
+      const { items, prefixItems, additionalItems, minItems = 0 } = schema;
+      if (prefixItems) {
+        return emitTuple(
+          prefixItems,
+          items as JSONSchema,
+          minItems,
+          indent,
+          ctx,
+          hint
+        );
+      }
+      if (Array.isArray(items)) {
+        return emitTuple(items, additionalItems, minItems, indent, ctx, hint);
+      }
+      if (items === false) {
+        return '[]';
+      }
+      return `${parenthesize(emitType(items ?? true, indent, ctx, hint))}[]`;
+    }
+    case 'object':
+      return emitObject(schema, indent, ctx, hint);
+  }
+
+  if (schema.properties) {
+    return emitObject(schema, indent, ctx, hint);
+  }
+  return 'unknown';
+}
+
+/**
+ * Member of an enum declaration
+ */
+interface EnumMember {
+  name: string;
+  value: string | number;
+  description?: string;
+}
+
+/**
+ * The members of a `oneOf` whose options each label one value with a title,
+ * as compiled from an enum with the `oneOf` enum style, or undefined when the
+ * schema is anything else
+ */
+function getEnumMembers(schema: JSONSchema): EnumMember[] | undefined {
+  const { oneOf } = schema;
+  if (
+    !oneOf?.length ||
+    Object.keys(schema).some((key) => key !== 'oneOf' && key !== 'description')
+  ) {
+    return undefined;
+  }
+  const members: EnumMember[] = [];
+  const names = new Set<string>();
+  for (const option of oneOf) {
+    const { const: constValue, enum: values, title, ...others } = option;
+    const value = values?.length === 1 ? values[0] : constValue;
+    if (
+      (typeof value !== 'string' && typeof value !== 'number') ||
+      (constValue !== undefined && values !== undefined) ||
+      typeof title !== 'string' ||
+      !/^[A-Za-z_$][\w$]*$/.test(title) ||
+      names.has(title) ||
+      Object.keys(others).some((key) => key !== 'description')
+    ) {
+      return undefined;
+    }
+    names.add(title);
+    members.push({ name: title, value, description: option.description });
+  }
+  return members;
+}
+
+/**
+ * Emit an enum declaration from a labeled `oneOf`, its titles becoming the
+ * member names and their descriptions the member comments
+ */
+function emitEnum(name: string, schema: JSONSchema, exported: boolean): string {
+  const prefix = exported ? 'export ' : '';
+  const jsdoc = getJSDoc(schema, '') ?? '';
+  const members = getEnumMembers(schema)!.map(
+    ({ name: member, value, description }) =>
+      (getJSDoc({ description }, '  ') ?? '') +
+      `  ${member} = ${JSON.stringify(value)},\n`
+  );
+  return `${jsdoc}${prefix}enum ${name} {\n${members.join('')}}\n`;
+}
+
+/**
+ * Declare an inline labeled `oneOf` as an enum named after the hint, since
+ * only enum members carry their titles, and return its name. Equal schemas
+ * share one declaration.
+ */
+function hoistEnum(schema: JSONSchema, ctx: EmitContext, hint: string): string {
+  const key = JSON.stringify(schema);
+  let name = ctx.enums.get(key);
+  if (!name) {
+    name = hint;
+    for (let suffix = 2; ctx.names.has(name); suffix++) {
+      name = `${hint}${suffix}`;
+    }
+    ctx.names.add(name);
+    ctx.enums.set(key, name);
+    ctx.hoisted.push(emitEnum(name, schema, ctx.exported));
+  }
+  return name;
+}
+
+/**
+ * Emit a named declaration: an enum for labeled `oneOf` schemas, an interface
+ * for plain object schemas, a type alias for anything else
+ */
+function emitDeclaration(
+  name: string,
+  schema: JSONSchema,
+  ctx: EmitContext
+): string {
+  if (getEnumMembers(schema)) {
+    return emitEnum(name, schema, ctx.exported);
+  }
+  const prefix = ctx.exported ? 'export ' : '';
+  const jsdoc = getJSDoc(schema, '') ?? '';
+  const type = emitType(schema, '', ctx, name);
+  if (schema.type === 'object' && !schema.nullable && type.startsWith('{')) {
+    return `${jsdoc}${prefix}interface ${name} ${type}\n`;
+  }
+  return `${jsdoc}${prefix}type ${name} = ${type};\n`;
+}
+
+/**
+ * Emit TypeScript declarations for a JSON Schema: the root schema under
+ * `options.name` plus one declaration per entry of `$defs`/`definitions`.
+ * Descriptions and validation keywords become JSDoc tags, so compiling the
+ * declarations again yields the same schema.
+ */
+export function emitTypeScript(
+  schema: JSONSchema,
+  options: EmitOptions = {}
+): string {
+  const { name = 'Schema', export: exported = true } = options;
+  const { $defs, definitions, ...root } = schema;
+  delete root.$schema;
+  const entries = Object.entries({ ...definitions, ...$defs }).map(
+    ([key, definition]) => [toTypeName(key), definition] as const
+  );
+  // A root that only references a definition adds no declaration of its own
+  const isAlias = root.$ref !== undefined && Object.keys(root).length === 1;
+  if (!isAlias || refToTypeName(root.$ref!) !== name) {
+    entries.unshift([toTypeName(name), root]);
+  }
+
+  const ctx: EmitContext = {
+    exported,
+    names: new Set(entries.map(([typeName]) => typeName)),
+    enums: new Map(),
+    hoisted: [],
+  };
+  const declarations = entries.map(([typeName, definition]) =>
+    emitDeclaration(typeName, definition, ctx)
+  );
+  return [...declarations, ...ctx.hoisted].join('\n');
+}
@@ -0,0 +1,187 @@
+import ts from 'typescript';
+import {
+  compileAt,
+  compileCached,
+  createContext,
+  fail,
+  finishSchema,
+  type CompileContext,
+} from './compiler';
+import type { CompileOptions, JSONSchema } from './types';
+import { getDescription } from './utils';
+
+/**
+ * A function declaration or a resolved call signature
+ */
+export type FunctionTarget = ts.SignatureDeclaration | ts.Signature;
+
+/**
+ * OpenAI-style function tool definition
+ */
+export interface OpenAIToolDefinition {
+  name: string;
+  description?: string;
+  parameters: JSONSchema;
+}
+
+/**
+ * MCP tool definition
+ */
+export interface MCPToolDefinition {
+  name: string;
+  description?: string;
+  inputSchema: JSONSchema;
+}
+
+/**
+ * Options for compileTool
+ */
+export interface ToolOptions extends CompileOptions {
+  /** Tool definition shape, defaults to `openai` */
+  format?: 'openai' | 'mcp';
+  /** Tool name, defaults to the declared function name */
+  name?: string;
+}
+
+/**
+ * Resolve a function target into its signature
+ */
+function getSignature(
+  target: FunctionTarget,
+  typeChecker: ts.TypeChecker
+): ts.Signature {
+  if ('kind' in target) {
+    const signature = typeChecker.getSignatureFromDeclaration(target);
+    if (!signature) {
+      throw new Error('Cannot resolve signature of function declaration');
+    }
+    return signature;
+  }
+  return target;
+}
+
+/**
+ * Compile the parameters of a signature into an object schema.
+ * A single destructured parameter contributes its properties directly, inlined
+ * even with `useReferences` since tool definitions need an object at the root.
+ */
+function compileParameterObject(
+  signature: ts.Signature,
+  ctx: CompileContext
+): JSONSchema {
+  const { typeChecker } = ctx;
+
+  const [single] = signature.parameters;
+  const singleDeclaration = single?.valueDeclaration;
+  if (
+    signature.parameters.length === 1 &&
+    singleDeclaration &&
+    ts.isParameter(singleDeclaration) &&
+    ts.isObjectBindingPattern(singleDeclaration.name)
+  ) {
+    return compileCached(typeChecker.getTypeOfSymbol(single), ctx, false);
+  }
+
+  const schema: JSONSchema = { type: 'object', properties: {} };
+  const required: string[] = [];
+
+  for (const param of signature.parameters) {
+    const declaration = param.valueDeclaration;
+    if (
+      declaration &&
+      ts.isParameter(declaration) &&
+      !ts.isIdentifier(declaration.name)
+    ) {
+      fail(
+        ctx,
+        'unsupported-parameter',
+        'Destructured parameters are only supported as the only parameter',
+        declaration
+      );
+      continue;
+    }
+
+    const paramName = param.getName();
+    // Callers can always omit the arguments of a rest parameter
+    const isOptional =
+      !!declaration &&
+      ts.isParameter(declaration) &&
+      (typeChecker.isOptionalParameter(declaration) ||
+        !!declaration.dotDotDotToken);
+
+    if (!isOptional) {
+      required.push(paramName);
+    }
+
+    const paramSchema = compileAt(
+      typeChecker.getTypeOfSymbol(param),
+      ctx,
+      ['properties', paramName],
+      isOptional,
+      declaration
+    );
+    // TSDoc separates the parameter name from its comment with a hyphen
+    const paramDescription = getDescription(param, typeChecker)?.replace(
+      /^-\s+/,
+      ''
+    );
+    if (paramDescription) {
+      paramSchema.description = paramDescription;
+    }
+    schema.properties![paramName] = paramSchema;
+  }
+
+  if (required.length > 0) {
+    schema.required = required;
+  }
+  return schema;
+}
+
+/**
+ * Compile the parameters of a function into an object schema,
+ * with `@param` descriptions on each property
+ */
+export function compileParameters(
+  target: FunctionTarget,
+  typeChecker: ts.TypeChecker,
+  options: CompileOptions = {}
+): JSONSchema {
+  const ctx = createContext(typeChecker, options);
+  const signature = getSignature(target, typeChecker);
+  return finishSchema(compileParameterObject(signature, ctx), ctx);
+}
+
+/**
+ * Compile a function into an OpenAI-style or MCP tool definition,
+ * using its JSDoc comment as the tool description
+ */
+export function compileTool(
+  target: FunctionTarget,
+  typeChecker: ts.TypeChecker,
+  options: ToolOptions = {}
+): OpenAIToolDefinition | MCPToolDefinition {
+  const { format = 'openai', name: toolName, ...compileOptions } = options;
+  const signature = getSignature(target, typeChecker);
+
+  const declaration = signature.getDeclaration();
+  const declaredName =
+    declaration?.name && ts.isIdentifier(declaration.name)
+      ? declaration.name.text
+      : undefined;
+  const name = toolName ?? declaredName;
+  if (!name) {
+    throw new Error('Anonymous functions require the name option');
+  }
+
+  const schema = compileParameters(signature, typeChecker, compileOptions);
+  const tool: { name: string; description?: string } = { name };
+
+  const documentation = signature.getDocumentationComment(typeChecker);
+  if (documentation.length > 0) {
+    tool.description = documentation.map((part) => part.text).join('');
+  }
+
+  return format === 'mcp'
+    ? { ...tool, inputSchema: schema }
+    : { ...tool, parameters: schema };
+}
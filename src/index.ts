@@ -1,2 +1,61 @@
-export type { JSONSchema } from './types';
-export { compile } from './compiler';
+export type {
+  CompileOptions,
+  Diagnostic,
+  DiagnosticCode,
+  JSONSchema,
+  JSONSchemaType,
+  SchemaTarget,
+  TagHandler,
+  TagRegistry,
+  TypeMapper,
+  TypeMapperContext,
+  UnknownTagPolicy,
+} from './types';
+export { compile, compileWithDiagnostics, getDefinitionName } from './compiler';
+export { CompileError, formatDiagnostic } from './diagnostics';
+export type { CompileTypeOptions, LoadedType, TypeSource } from './program';
+export { bundleTypes, compileBundle } from './bundle';
+export { clearSchemaCache } from './cache';
+export {
+  clearProgramCache,
+  compileType,
+  getProgram,
+  getTypeSymbols,
+  loadType,
+} from './program';
+export type {
+  FunctionTarget,
+  MCPToolDefinition,
+  OpenAIToolDefinition,
+  ToolOptions,
+} from './function';
+export { compileParameters, compileTool } from './function';
+export {
+  bigintMapper,
+  binaryMapper,
+  dateMapper,
+  mapMapper,
+  regExpMapper,
+  setMapper,
+  standardMappers,
+  urlMapper,
+} from './mappers';
+export { builtinTagHandlers, createTagRegistry } from './tags';
+export type {
+  OpenAPIContent,
+  OpenAPIDocument,
+  OpenAPIOperation,
+  OpenAPIOptions,
+  OpenAPIParameter,
+} from './openapi';
+export { generateOpenAPI } from './openapi';
+export type {
+  IncrementalCompiler,
+  SchemaChange,
+  SchemaWatcher,
+  UpdateResult,
+  WatchOptions,
+} from './watch';
+export { createIncrementalCompiler, watchTypes } from './watch';
+export type { EmitOptions } from './emitter';
+export { emitTypeScript } from './emitter';
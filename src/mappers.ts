@@ -0,0 +1,113 @@
+import path from 'node:path';
+import ts from 'typescript';
+import type { JSONSchema, TypeMapper, TypeMapperContext } from './types';
+
+/** Directory of the default library files */
+const libDirectory = path.dirname(ts.getDefaultLibFilePath({}));
+
+/**
+ * Name of a type declared by the default library (`Date`, `Map`, ...),
+ * or undefined for user and third-party types
+ */
+function getLibTypeName(type: ts.Type): string | undefined {
+  const symbol = type.getSymbol();
+  const declarations = symbol?.getDeclarations();
+  if (
+    !symbol ||
+    !declarations?.some(
+      (decl) => path.dirname(decl.getSourceFile().fileName) === libDirectory
+    )
+  ) {
+    return undefined;
+  }
+  return symbol.getName();
+}
+
+/**
+ * Compile one type argument of a generic library type, leaving the others
+ * alone since they may have no schema, like the `symbol` keys of a `Map`
+ */
+function compileTypeArgument(
+  type: ts.Type,
+  index: number,
+  context: TypeMapperContext
+): JSONSchema | undefined {
+  const args = context.typeChecker.getTypeArguments(type as ts.TypeReference);
+  const arg = args[index];
+  return arg && context.compile(arg);
+}
+
+/** `Date` as an ISO 8601 date-time string */
+export const dateMapper: TypeMapper = (type) =>
+  getLibTypeName(type) === 'Date'
+    ? { type: 'string', format: 'date-time' }
+    : undefined;
+
+/** `bigint` as a string of decimal digits */
+export const bigintMapper: TypeMapper = (type) => {
+  if (type.flags & ts.TypeFlags.BigInt) {
+    return { type: 'string', pattern: '^-?\\d+$' };
+  }
+  if (type.flags & ts.TypeFlags.BigIntLiteral) {
+    const { negative, base10Value } = (type as ts.BigIntLiteralType).value;
+    return { type: 'string', enum: [(negative ? '-' : '') + base10Value] };
+  }
+  return undefined;
+};
+
+/** `Map<K, V>` and `ReadonlyMap<K, V>` as an object of V values */
+export const mapMapper: TypeMapper = (type, context) => {
+  const name = getLibTypeName(type);
+  if (name !== 'Map' && name !== 'ReadonlyMap') {
+    return undefined;
+  }
+  const value = compileTypeArgument(type, 1, context);
+  return { type: 'object', additionalProperties: value ?? true };
+};
+
+/** `Set<T>` and `ReadonlySet<T>` as an array of unique T items */
+export const setMapper: TypeMapper = (type, context) => {
+  const name = getLibTypeName(type);
+  if (name !== 'Set' && name !== 'ReadonlySet') {
+    return undefined;
+  }
+  const item = compileTypeArgument(type, 0, context);
+  return { type: 'array', items: item ?? true, uniqueItems: true };
+};
+
+/** `Uint8Array` and `ArrayBuffer` as a base64 string */
+export const binaryMapper: TypeMapper = (type, context) => {
+  const name = getLibTypeName(type);
+  if (name !== 'Uint8Array' && name !== 'ArrayBuffer') {
+    return undefined;
+  }
+  return context.options.target === 'openapi-3.0'
+    ? { type: 'string', format: 'byte' }
+    : { type: 'string', contentEncoding: 'base64' };
+};
+
+/** `URL` as a URI string */
+export const urlMapper: TypeMapper = (type) =>
+  getLibTypeName(type) === 'URL'
+    ? { type: 'string', format: 'uri' }
+    : undefined;
+
+/** `RegExp` as a regular expression string */
+export const regExpMapper: TypeMapper = (type) =>
+  getLibTypeName(type) === 'RegExp'
+    ? { type: 'string', format: 'regex' }
+    : undefined;
+
+/**
+ * Mappers for standard library types, applied after `options.mappers`
+ * unless `options.standardMappers` is false
+ */
+export const standardMappers: readonly TypeMapper[] = [
+  dateMapper,
+  bigintMapper,
+  mapMapper,
+  setMapper,
+  binaryMapper,
+  urlMapper,
+  regExpMapper,
+];
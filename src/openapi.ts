@@ -0,0 +1,340 @@
+import ts from 'typescript';
+import {
+  compileAt,
+  compileProperty,
+  createContext,
+  escapePointer,
+  fail,
+  isOptionalProperty,
+  type CompileContext,
+} from './compiler';
+import type { CompileOptions, JSONSchema } from './types';
+import { getDescription } from './utils';
+
+/** HTTP methods allowed in OpenAPI path items */
+const HTTP_METHODS = [
+  'get',
+  'put',
+  'post',
+  'delete',
+  'options',
+  'head',
+  'patch',
+  'trace',
+] as const;
+
+type HttpMethod = (typeof HTTP_METHODS)[number];
+
+/** Media type of request and response bodies */
+const JSON_MEDIA_TYPE = 'application/json';
+
+/**
+ * OpenAPI parameter object
+ */
+export interface OpenAPIParameter {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  required?: boolean;
+  description?: string;
+  schema: JSONSchema;
+}
+
+/**
+ * OpenAPI media type map of a request or response body
+ */
+export interface OpenAPIContent {
+  [mediaType: string]: { schema: JSONSchema };
+}
+
+/**
+ * OpenAPI operation object
+ */
+export interface OpenAPIOperation {
+  summary?: string;
+  description?: string;
+  parameters?: OpenAPIParameter[];
+  requestBody?: { required?: boolean; content: OpenAPIContent };
+  responses: {
+    [status: string]: { description: string; content?: OpenAPIContent };
+  };
+}
+
+/**
+ * OpenAPI document generated from a route map
+ */
+export interface OpenAPIDocument {
+  openapi: string;
+  info: { title: string; version: string; description?: string };
+  paths: { [path: string]: { [method in HttpMethod]?: OpenAPIOperation } };
+  components?: { schemas: { [name: string]: JSONSchema } };
+}
+
+/**
+ * Options for generateOpenAPI
+ */
+export interface OpenAPIOptions extends Omit<CompileOptions, 'target'> {
+  /** Document dialect, defaults to `openapi-3.1` */
+  target?: 'openapi-3.0' | 'openapi-3.1';
+  /** Document info, defaults to `{ title: 'API', version: '1.0.0' }` */
+  info?: OpenAPIDocument['info'];
+}
+
+/**
+ * Split a route key such as `GET /users/:id` into its method and OpenAPI path,
+ * or undefined when the key is malformed
+ */
+function parseRouteKey(
+  key: string
+): { method: HttpMethod; path: string } | undefined {
+  const match = /^([A-Za-z]+)\s+(\/\S*)$/.exec(key);
+  const method = match?.[1]?.toLowerCase() as HttpMethod | undefined;
+  if (!match || !method || !HTTP_METHODS.includes(method)) {
+    return undefined;
+  }
+  return { method, path: match[2]!.replace(/:(\w+)/g, '{$1}') };
+}
+
+/**
+ * Split a JSDoc comment into a summary (first line) and a description (the rest)
+ */
+function splitDescription(
+  text: string | undefined
+): Pick<OpenAPIOperation, 'summary' | 'description'> {
+  if (!text) {
+    return {};
+  }
+  const [summary, ...rest] = text.split('\n');
+  const description = rest.join('\n').trim();
+  return description ? { summary, description } : { summary };
+}
+
+/**
+ * Compile the properties of a `params`, `query` or `headers` type into parameters
+ */
+function collectParameters(
+  type: ts.Type,
+  location: OpenAPIParameter['in'],
+  operationPath: string[],
+  parameters: OpenAPIParameter[],
+  ctx: CompileContext
+): void {
+  const properties = ctx.typeChecker.getPropertiesOfType(
+    ctx.typeChecker.getNonNullableType(type)
+  );
+  for (const prop of properties) {
+    const compiled = compileProperty(prop, ctx, [
+      ...operationPath,
+      'parameters',
+      parameters.length,
+      'schema',
+    ]);
+    if (!compiled) {
+      continue;
+    }
+
+    // The description belongs to the parameter rather than its schema
+    const { description, ...schema } = compiled;
+    const parameter: Omit<OpenAPIParameter, 'schema'> = {
+      name: prop.getName(),
+      in: location,
+    };
+    // Path parameters are always required
+    if (location === 'path' || !isOptionalProperty(prop, ctx)) {
+      parameter.required = true;
+    }
+    if (description) {
+      parameter.description = description;
+    }
+    parameters.push({ ...parameter, schema });
+  }
+}
+
+/**
+ * Compile a response body; `void` and `undefined` mean no content
+ */
+function compileResponse(
+  type: ts.Type,
+  description: string,
+  segments: string[],
+  node: ts.Node | undefined,
+  ctx: CompileContext
+): OpenAPIOperation['responses'][string] {
+  if (type.flags & (ts.TypeFlags.Void | ts.TypeFlags.Undefined)) {
+    return { description };
+  }
+  const schema = compileAt(
+    type,
+    ctx,
+    [...segments, 'content', escapePointer(JSON_MEDIA_TYPE), 'schema'],
+    false,
+    node
+  );
+  return { description, content: { [JSON_MEDIA_TYPE]: { schema } } };
+}
+
+/**
+ * Compile one route of the route map into an operation
+ */
+function compileOperation(
+  route: ts.Symbol,
+  path: string,
+  operationPath: string[],
+  ctx: CompileContext
+): OpenAPIOperation {
+  const { typeChecker } = ctx;
+  const routeType = typeChecker.getTypeOfSymbol(route);
+  const member = (name: string) => {
+    const prop = typeChecker.getPropertyOfType(routeType, name);
+    return (
+      prop && {
+        prop,
+        type: typeChecker.getTypeOfSymbol(prop),
+        isOptional: (prop.flags & ts.SymbolFlags.Optional) !== 0,
+      }
+    );
+  };
+
+  const operation: Omit<OpenAPIOperation, 'responses'> = splitDescription(
+    getDescription(route, typeChecker)
+  );
+  const responses: OpenAPIOperation['responses'] = {};
+
+  const parameters: OpenAPIParameter[] = [];
+  const params = member('params');
+  if (params) {
+    collectParameters(params.type, 'path', operationPath, parameters, ctx);
+  }
+  // Path parameters missing from `params` are plain strings
+  for (const [, name] of path.matchAll(/\{(\w+)\}/g)) {
+    if (!parameters.some((p) => p.name === name)) {
+      parameters.push({
+        name: name!,
+        in: 'path',
+        required: true,
+        schema: { type: 'string' },
+      });
+    }
+  }
+  const query = member('query');
+  if (query) {
+    collectParameters(query.type, 'query', operationPath, parameters, ctx);
+  }
+  const headers = member('headers');
+  if (headers) {
+    collectParameters(headers.type, 'header', operationPath, parameters, ctx);
+  }
+  if (parameters.length > 0) {
+    operation.parameters = parameters;
+  }
+
+  const body = member('body');
+  if (body) {
+    const schema = compileAt(
+      body.type,
+      ctx,
+      [
+        ...operationPath,
+        'requestBody',
+        'content',
+        escapePointer(JSON_MEDIA_TYPE),
+        'schema',
+      ],
+      body.isOptional,
+      body.prop.valueDeclaration
+    );
+    operation.requestBody = {
+      content: { [JSON_MEDIA_TYPE]: { schema } },
+    };
+    if (!body.isOptional) {
+      operation.requestBody.required = true;
+    }
+  }
+
+  const response = member('response');
+  if (response) {
+    const status =
+      response.type.flags & (ts.TypeFlags.Void | ts.TypeFlags.Undefined)
+        ? '204'
+        : '200';
+    responses[status] = compileResponse(
+      response.type,
+      getDescription(response.prop, typeChecker) ?? 'Successful response',
+      [...operationPath, 'responses', status],
+      response.prop.valueDeclaration,
+      ctx
+    );
+  }
+
+  // Explicit responses by status code, e.g. `responses: { 404: NotFound }`
+  const statusResponses = member('responses');
+  if (statusResponses) {
+    for (const prop of typeChecker.getPropertiesOfType(statusResponses.type)) {
+      const status = prop.getName();
+      responses[status] = compileResponse(
+        typeChecker.getTypeOfSymbol(prop),
+        getDescription(prop, typeChecker) ?? `Response ${status}`,
+        [...operationPath, 'responses', escapePointer(status)],
+        prop.valueDeclaration,
+        ctx
+      );
+    }
+  }
+
+  if (Object.keys(responses).length === 0) {
+    responses['204'] = { description: 'No content' };
+  }
+
+  return { ...operation, responses };
+}
+
+/**
+ * Generate an OpenAPI document from a route map type such as
+ * `{ 'GET /users/:id': { params: ...; query: ...; body: ...; response: User } }`.
+ * Named types are shared through `components/schemas`.
+ */
+export function generateOpenAPI(
+  routes: ts.Type,
+  typeChecker: ts.TypeChecker,
+  options: OpenAPIOptions = {}
+): OpenAPIDocument {
+  const {
+    target = 'openapi-3.1',
+    info = { title: 'API', version: '1.0.0' },
+    ...compileOptions
+  } = options;
+  const ctx = createContext(typeChecker, {
+    useReferences: true,
+    ...compileOptions,
+    target,
+  });
+
+  const document: OpenAPIDocument = {
+    openapi: target === 'openapi-3.0' ? '3.0.3' : '3.1.0',
+    info,
+    paths: {},
+  };
+
+  for (const route of typeChecker.getPropertiesOfType(routes)) {
+    const key = parseRouteKey(route.getName());
+    if (!key) {
+      ctx.path.push('paths');
+      fail(
+        ctx,
+        'invalid-route',
+        `Invalid route key: ${route.getName()}, expected "METHOD /path"`,
+        route.getDeclarations()?.[0]
+      );
+      ctx.path.pop();
+      continue;
+    }
+    const { method, path } = key;
+    const operationPath = ['paths', escapePointer(path), method];
+    const pathItem = (document.paths[path] ??= {});
+    pathItem[method] = compileOperation(route, path, operationPath, ctx);
+  }
+
+  if (ctx.definitions.size > 0) {
+    document.components = { schemas: Object.fromEntries(ctx.definitions) };
+  }
+  return document;
+}
@@ -0,0 +1,314 @@
+import path from 'node:path';
+import ts from 'typescript';
+import { compile } from './compiler';
+import type { CompileOptions, JSONSchema } from './types';
+
+/**
+ * Where to read a type from: a file on disk or in-memory source text
+ */
+export type TypeSource =
+  | { file: string }
+  | {
+      source: string;
+      /** Virtual file name, relative imports resolve from its directory */
+      fileName?: string;
+    };
+
+/**
+ * Options for compileType and loadType
+ */
+export interface CompileTypeOptions extends CompileOptions {
+  /** Compiler options for the program, defaults to `{ strict: true }` */
+  compilerOptions?: ts.CompilerOptions;
+}
+
+/**
+ * A type resolved from a source, with the program it belongs to
+ */
+export interface LoadedType {
+  program: ts.Program;
+  typeChecker: ts.TypeChecker;
+  type: ts.Type;
+  symbol: ts.Symbol;
+}
+
+/** Declarations that can be compiled into a schema */
+const TYPE_SYMBOLS =
+  ts.SymbolFlags.Interface |
+  ts.SymbolFlags.TypeAlias |
+  ts.SymbolFlags.Enum |
+  ts.SymbolFlags.Class;
+
+/**
+ * A program kept for reuse, with the modification times of the files
+ * it was created from
+ */
+interface CachedProgram {
+  program: ts.Program;
+  /** Modification time of every source file read from disk, by file name */
+  versions: Map<string, number | undefined>;
+}
+
+/** Compiler options of programs created without any */
+export const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = { strict: true };
+
+/** Programs kept for reuse, least recently used first */
+const programCache = new Map<string, CachedProgram>();
+
+/** Maximum number of cached programs */
+const MAX_CACHED_PROGRAMS = 16;
+
+/** Parsed default library files, shared by all programs */
+const libSourceFiles = new Map<string, ts.SourceFile>();
+
+/**
+ * Create a compiler host serving an optional virtual file from memory
+ * and sharing parsed default library files across programs.
+ */
+function createHost(
+  compilerOptions: ts.CompilerOptions,
+  virtualFile?: { fileName: string; source: string },
+  unchangedFiles?: ReadonlyMap<string, ts.SourceFile>
+): ts.CompilerHost {
+  const host = ts.createCompilerHost(compilerOptions);
+  const { getSourceFile, readFile, fileExists } = host;
+  const libDirectory = path.dirname(ts.getDefaultLibFilePath(compilerOptions));
+
+  host.getSourceFile = (fileName, languageVersion, ...rest) => {
+    if (virtualFile && path.resolve(fileName) === virtualFile.fileName) {
+      return ts.createSourceFile(fileName, virtualFile.source, languageVersion);
+    }
+    const unchanged = unchangedFiles?.get(path.resolve(fileName));
+    if (unchanged) {
+      return unchanged;
+    }
+    if (path.dirname(path.resolve(fileName)) !== libDirectory) {
+      return getSourceFile(fileName, languageVersion, ...rest);
+    }
+
+    const version =
+      typeof languageVersion === 'object'
+        ? languageVersion.languageVersion
+        : languageVersion;
+    const key = `${version}:${fileName}`;
+    let sourceFile = libSourceFiles.get(key);
+    if (!sourceFile) {
+      sourceFile = getSourceFile(fileName, languageVersion, ...rest);
+      if (sourceFile) {
+        libSourceFiles.set(key, sourceFile);
+      }
+    }
+    return sourceFile;
+  };
+
+  if (virtualFile) {
+    host.readFile = (fileName) =>
+      path.resolve(fileName) === virtualFile.fileName
+        ? virtualFile.source
+        : readFile(fileName);
+    host.fileExists = (fileName) =>
+      path.resolve(fileName) === virtualFile.fileName || fileExists(fileName);
+  }
+
+  return host;
+}
+
+/**
+ * Modification time of a file on disk, undefined when it cannot be read
+ */
+function getFileVersion(fileName: string): number | undefined {
+  return ts.sys.getModifiedTime?.(fileName)?.getTime();
+}
+
+/**
+ * Record the modification times of a program's source files, except the
+ * default library and the in-memory entry file
+ */
+function getFileVersions(
+  program: ts.Program,
+  virtualFileName?: string
+): Map<string, number | undefined> {
+  const versions = new Map<string, number | undefined>();
+  for (const sourceFile of program.getSourceFiles()) {
+    const fileName = path.resolve(sourceFile.fileName);
+    if (
+      fileName !== virtualFileName &&
+      !program.isSourceFileDefaultLibrary(sourceFile)
+    ) {
+      versions.set(fileName, getFileVersion(fileName));
+    }
+  }
+  return versions;
+}
+
+/**
+ * Get a program for a source, reusing a cached one while none of the files
+ * it was created from changed. Otherwise the program is rebuilt, reusing the
+ * parsed files that did not change.
+ */
+export function getProgram(
+  input: TypeSource,
+  compilerOptions: ts.CompilerOptions = DEFAULT_COMPILER_OPTIONS
+): { program: ts.Program; fileName: string } {
+  const fileName = path.resolve(
+    'file' in input ? input.file : (input.fileName ?? 'input.ts')
+  );
+  const key = JSON.stringify([
+    fileName,
+    'source' in input ? input.source : undefined,
+    compilerOptions,
+  ]);
+
+  let cached = programCache.get(key);
+  if (cached) {
+    programCache.delete(key);
+  }
+
+  const changed = new Set(
+    [...(cached?.versions ?? [])]
+      .filter(([file, version]) => getFileVersion(file) !== version)
+      .map(([file]) => file)
+  );
+  if (!cached || changed.size > 0) {
+    const unchangedFiles = new Map<string, ts.SourceFile>();
+    for (const sourceFile of cached?.program.getSourceFiles() ?? []) {
+      const file = path.resolve(sourceFile.fileName);
+      if (cached?.versions.has(file) && !changed.has(file)) {
+        unchangedFiles.set(file, sourceFile);
+      }
+    }
+
+    const virtualFile =
+      'source' in input ? { fileName, source: input.source } : undefined;
+    const host = createHost(compilerOptions, virtualFile, unchangedFiles);
+    const program = ts.createProgram(
+      [fileName],
+      compilerOptions,
+      host,
+      cached?.program
+    );
+    cached = {
+      program,
+      versions: getFileVersions(program, virtualFile?.fileName),
+    };
+    if (programCache.size >= MAX_CACHED_PROGRAMS) {
+      programCache.delete(programCache.keys().next().value!);
+    }
+  }
+  programCache.set(key, cached);
+
+  return { program: cached.program, fileName };
+}
+
+/**
+ * Clear the programs cached by compileType and loadType
+ */
+export function clearProgramCache(): void {
+  programCache.clear();
+}
+
+/**
+ * Collect the compilable type symbols of a source file by name, from its
+ * exports if it is a module, plus its top-level declarations unless exportedOnly is set.
+ */
+export function getTypeSymbols(
+  sourceFile: ts.SourceFile,
+  typeChecker: ts.TypeChecker,
+  exportedOnly = false
+): Map<string, ts.Symbol> {
+  const symbols = new Map<string, ts.Symbol>();
+
+  const moduleSymbol = typeChecker.getSymbolAtLocation(sourceFile);
+  if (moduleSymbol) {
+    for (const exported of typeChecker.getExportsOfModule(moduleSymbol)) {
+      const symbol =
+        exported.flags & ts.SymbolFlags.Alias
+          ? typeChecker.getAliasedSymbol(exported)
+          : exported;
+      if (symbol.flags & TYPE_SYMBOLS) {
+        symbols.set(exported.getName(), symbol);
+      }
+    }
+  }
+
+  if (exportedOnly && moduleSymbol) {
+    return symbols;
+  }
+
+  for (const statement of sourceFile.statements) {
+    if (
+      (ts.isInterfaceDeclaration(statement) ||
+        ts.isTypeAliasDeclaration(statement) ||
+        ts.isEnumDeclaration(statement) ||
+        ts.isClassDeclaration(statement)) &&
+      statement.name &&
+      !symbols.has(statement.name.text)
+    ) {
+      const symbol = typeChecker.getSymbolAtLocation(statement.name);
+      if (symbol) {
+        symbols.set(statement.name.text, symbol);
+      }
+    }
+  }
+
+  return symbols;
+}
+
+/**
+ * Whether a symbol is a generic declaration, which has no schema of its own
+ * and is skipped when compiling all exports
+ */
+export function isGenericDeclaration(symbol: ts.Symbol): boolean {
+  return (symbol.getDeclarations() ?? []).some(
+    (declaration) =>
+      (ts.isInterfaceDeclaration(declaration) ||
+        ts.isTypeAliasDeclaration(declaration) ||
+        ts.isClassDeclaration(declaration)) &&
+      (declaration.typeParameters?.length ?? 0) > 0
+  );
+}
+
+/**
+ * Resolve an interface, type alias, enum or class declared in a source by name
+ */
+export function loadType(
+  input: TypeSource,
+  typeName: string,
+  compilerOptions?: ts.CompilerOptions
+): LoadedType {
+  const { program, fileName } = getProgram(input, compilerOptions);
+  const sourceFile = program.getSourceFile(fileName);
+  if (!sourceFile) {
+    throw new Error(`Cannot read source file: ${fileName}`);
+  }
+
+  const typeChecker = program.getTypeChecker();
+  const symbol = getTypeSymbols(sourceFile, typeChecker).get(typeName);
+  if (!symbol) {
+    throw new Error(`Type not found: ${typeName}`);
+  }
+
+  const type = typeChecker.getDeclaredTypeOfSymbol(symbol);
+  return { program, typeChecker, type, symbol };
+}
+
+/**
+ * Compile a type declared in a file or in-memory source to JSON Schema
+ */
+export function compileType(
+  input: TypeSource,
+  typeName: string,
+  options: CompileTypeOptions = {}
+): JSONSchema {
+  const { compilerOptions, ...compileOptions } = options;
+  const { program, type, typeChecker } = loadType(
+    input,
+    typeName,
+    compilerOptions
+  );
+  return compile(type, typeChecker, {
+    exactOptionalPropertyTypes:
+      program.getCompilerOptions().exactOptionalPropertyTypes,
+    ...compileOptions,
+  });
+}
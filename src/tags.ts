@@ -0,0 +1,285 @@
+import type { JSONSchema, TagHandler, TagRegistry } from './types';
+
+type NumericKeyword =
+  | 'minimum'
+  | 'maximum'
+  | 'multipleOf'
+  | 'minLength'
+  | 'maxLength'
+  | 'minItems'
+  | 'maxItems';
+
+/**
+ * Greatest common divisor of two integers
+ */
+function gcd(a: number, b: number): number {
+  return b === 0 ? Math.abs(a) : gcd(b, a % b);
+}
+
+/**
+ * Combine a repeated numeric keyword into the stricter constraint: the larger
+ * lower bound, the smaller upper bound, or the least common multiple of
+ * integer `multipleOf` values. Tags repeat when a property merges the
+ * declarations of an intersection.
+ */
+function mergeNumeric(
+  name: NumericKeyword,
+  existing: number | undefined,
+  value: number
+): number {
+  if (existing === undefined) {
+    return value;
+  }
+  if (name === 'multipleOf') {
+    return Number.isInteger(existing) && Number.isInteger(value)
+      ? (existing * value) / gcd(existing, value)
+      : value;
+  }
+  return name.startsWith('min')
+    ? Math.max(existing, value)
+    : Math.min(existing, value);
+}
+
+/**
+ * Handler setting a numeric keyword from the tag text, ignoring non-numbers
+ */
+function numberTag(
+  name: 'minimum' | 'maximum' | 'multipleOf',
+  types: TagHandler['types']
+): TagHandler {
+  return {
+    name,
+    types,
+    apply(schema, text) {
+      const value = parseFloat(text);
+      if (!isNaN(value)) {
+        schema[name] = mergeNumeric(name, schema[name], value);
+      }
+    },
+  };
+}
+
+/**
+ * Handler setting a length or count keyword from the tag text, ignoring non-integers
+ */
+function integerTag(
+  name: 'minLength' | 'maxLength' | 'minItems' | 'maxItems',
+  types: TagHandler['types']
+): TagHandler {
+  return {
+    name,
+    types,
+    apply(schema, text) {
+      const value = parseInt(text, 10);
+      if (!isNaN(value)) {
+        schema[name] = mergeNumeric(name, schema[name], value);
+      }
+    },
+  };
+}
+
+/**
+ * Handler setting a string keyword to the tag text
+ */
+function stringTag(name: 'format', types: TagHandler['types']): TagHandler {
+  return {
+    name,
+    types,
+    apply(schema, text) {
+      schema[name] = text;
+    },
+  };
+}
+
+/**
+ * Combine two patterns into one matching strings that match both
+ */
+function intersectPatterns(a: string, b: string): string {
+  return a === b ? a : `^(?=[\\s\\S]*?(?:${a}))(?=[\\s\\S]*?(?:${b}))`;
+}
+
+/**
+ * Handler that accepts a tag without changing the schema
+ */
+function ignoredTag(name: string): TagHandler {
+  return { name, apply() {} };
+}
+
+/**
+ * Parse tag text as JSON, falling back to the raw text
+ */
+export function parseTagValue(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/** Numeric schema types */
+const NUMERIC = ['number', 'integer'] as const;
+
+/**
+ * Built-in handlers for validation keywords, `@default` and the annotation
+ * keywords (`@title`, `@example`, `@deprecated`, ...), plus
+ * documentation-only tags (`@param`, `@see`, ...) that are accepted and ignored
+ */
+export const builtinTagHandlers: readonly TagHandler[] = [
+  numberTag('minimum', NUMERIC),
+  numberTag('maximum', NUMERIC),
+  numberTag('multipleOf', NUMERIC),
+  {
+    name: 'integer',
+    types: NUMERIC,
+    apply(schema) {
+      schema.type = Array.isArray(schema.type)
+        ? schema.type.map((type) => (type === 'number' ? 'integer' : type))
+        : 'integer';
+    },
+  },
+  integerTag('minLength', ['string']),
+  integerTag('maxLength', ['string']),
+  {
+    name: 'pattern',
+    types: ['string'],
+    apply(schema, text) {
+      schema.pattern =
+        schema.pattern === undefined
+          ? text
+          : intersectPatterns(schema.pattern, text);
+    },
+  },
+  stringTag('format', ['string']),
+  integerTag('minItems', ['array']),
+  integerTag('maxItems', ['array']),
+  {
+    name: 'default',
+    apply(schema, text) {
+      schema.default = parseTagValue(text);
+    },
+  },
+  {
+    name: 'additionalProperties',
+    types: ['object'],
+    apply(schema, text) {
+      const value = parseTagValue(text);
+      if (typeof value === 'boolean') {
+        schema.additionalProperties = value;
+      }
+    },
+  },
+  {
+    name: 'patternProperties',
+    types: ['object'],
+    apply(schema, text) {
+      const value = parseTagValue(text);
+      if (
+        typeof value === 'object' &&
+        value !== null &&
+        !Array.isArray(value)
+      ) {
+        schema.patternProperties = {
+          ...schema.patternProperties,
+          ...(value as Record<string, JSONSchema>),
+        };
+      }
+    },
+  },
+  {
+    name: 'title',
+    apply(schema, text) {
+      schema.title = text;
+    },
+  },
+  {
+    name: 'example',
+    apply(schema, text) {
+      schema.examples = [...(schema.examples ?? []), parseTagValue(text)];
+    },
+  },
+  {
+    name: 'deprecated',
+    apply(schema) {
+      schema.deprecated = true;
+    },
+  },
+  {
+    name: 'readonly',
+    apply(schema) {
+      schema.readOnly = true;
+    },
+  },
+  {
+    name: 'writeonly',
+    apply(schema) {
+      schema.writeOnly = true;
+    },
+  },
+  {
+    name: 'comment',
+    apply(schema, text) {
+      schema.$comment = text;
+    },
+  },
+  // `@ignore` is handled by the compiler when collecting properties
+  ...[
+    'ignore',
+    'param',
+    'returns',
+    'return',
+    'throws',
+    'see',
+    'link',
+    'internal',
+    'remarks',
+    'since',
+    'typeParam',
+    'template',
+  ].map(ignoredTag),
+];
+
+/**
+ * Create a registry of JSDoc tag handlers, starting from the built-in handlers
+ * unless another list is given
+ */
+export function createTagRegistry(
+  handlers: readonly TagHandler[] = builtinTagHandlers
+): TagRegistry {
+  const byName = new Map<string, TagHandler>();
+  const registry: TagRegistry = {
+    register(handler) {
+      byName.set(handler.name, handler);
+      return registry;
+    },
+    unregister(name) {
+      byName.delete(name);
+      return registry;
+    },
+    get(name) {
+      return byName.get(name);
+    },
+  };
+  for (const handler of handlers) {
+    registry.register(handler);
+  }
+  return registry;
+}
+
+/** Registry used when no `tags` option is given */
+export const defaultTagRegistry = createTagRegistry();
+
+/**
+ * Whether a handler applies to a schema of the given type
+ */
+export function appliesTo(handler: TagHandler, schema: JSONSchema): boolean {
+  const { types } = handler;
+  if (!types) {
+    return true;
+  }
+  const schemaTypes = Array.isArray(schema.type)
+    ? schema.type
+    : schema.type
+      ? [schema.type]
+      : [];
+  return schemaTypes.some((type) => types.includes(type));
+}
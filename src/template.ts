@@ -0,0 +1,110 @@
+import ts from 'typescript';
+
+/** Pattern matching any `string`, unlike `.*` also across line breaks */
+export const STRING_PATTERN = '[\\s\\S]*';
+
+/** Pattern matching the string form of a `number` */
+export const NUMBER_PATTERN = '-?\\d+(?:\\.\\d+)?(?:[eE][+-]?\\d+)?';
+
+/** Pattern matching the string form of a `bigint` */
+export const BIGINT_PATTERN = '-?\\d+';
+
+/**
+ * Escape a string for literal use in a regular expression
+ */
+function escapeRegExp(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build an unanchored regular expression matching the string forms of a type,
+ * or undefined if the type has no pattern representation.
+ */
+function getTypePattern(
+  type: ts.Type,
+  typeChecker: ts.TypeChecker
+): string | undefined {
+  if (type.flags & ts.TypeFlags.StringLiteral) {
+    return escapeRegExp((type as ts.StringLiteralType).value);
+  }
+  if (type.flags & ts.TypeFlags.NumberLiteral) {
+    return escapeRegExp(String((type as ts.NumberLiteralType).value));
+  }
+  if (type.flags & (ts.TypeFlags.BooleanLiteral | ts.TypeFlags.BigIntLiteral)) {
+    return escapeRegExp(typeChecker.typeToString(type).replace(/n$/, ''));
+  }
+  if (type.flags & ts.TypeFlags.String) {
+    return STRING_PATTERN;
+  }
+  if (type.flags & ts.TypeFlags.Number) {
+    return NUMBER_PATTERN;
+  }
+  if (type.flags & ts.TypeFlags.BigInt) {
+    return BIGINT_PATTERN;
+  }
+
+  if (type.flags & ts.TypeFlags.TemplateLiteral) {
+    const { texts, types } = type as ts.TemplateLiteralType;
+    let pattern = escapeRegExp(texts[0] ?? '');
+    for (let i = 0; i < types.length; i++) {
+      const hole = getTypePattern(types[i]!, typeChecker);
+      if (hole === undefined) {
+        return undefined;
+      }
+      pattern += hole + escapeRegExp(texts[i + 1] ?? '');
+    }
+    return pattern;
+  }
+
+  // Casing of intrinsic string mappings (`Uppercase<string>`) is not enforced
+  if (type.flags & ts.TypeFlags.StringMapping) {
+    return getTypePattern((type as ts.StringMappingType).type, typeChecker);
+  }
+
+  if (type.isUnion()) {
+    return getAlternativesPattern(type.types, typeChecker);
+  }
+
+  return undefined;
+}
+
+/**
+ * Build an unanchored alternation of the patterns of several types
+ */
+function getAlternativesPattern(
+  types: readonly ts.Type[],
+  typeChecker: ts.TypeChecker
+): string | undefined {
+  const alternatives: string[] = [];
+  for (const member of types) {
+    const alternative = getTypePattern(member, typeChecker);
+    if (alternative === undefined) {
+      return undefined;
+    }
+    alternatives.push(alternative);
+  }
+  return `(?:${alternatives.join('|')})`;
+}
+
+/**
+ * Build an anchored regular expression matching any of the given union members
+ */
+export function getUnionPattern(
+  types: readonly ts.Type[],
+  typeChecker: ts.TypeChecker
+): string | undefined {
+  const pattern = getAlternativesPattern(types, typeChecker);
+  return pattern === undefined ? undefined : `^${pattern}$`;
+}
+
+/**
+ * Build an anchored regular expression for a string-like type
+ * (template literals, string/number literals and unions of them).
+ */
+export function getTemplatePattern(
+  type: ts.Type,
+  typeChecker: ts.TypeChecker
+): string | undefined {
+  const pattern = getTypePattern(type, typeChecker);
+  return pattern === undefined ? undefined : `^${pattern}$`;
+}
@@ -1,22 +1,42 @@
+import type ts from 'typescript';
+
 /**
  * JSON Schema type definition
  */
 export interface JSONSchema {
-  type?:
-    | 'string'
-    | 'number'
-    | 'integer'
-    | 'boolean'
-    | 'object'
-    | 'array'
-    | 'null';
+  /** Dialect URI, only emitted on the root of JSON Schema targets */
+  $schema?: string;
+
+  // References
+  $ref?: string;
+  /** Definitions container of 2019-09 and later */
+  $defs?: { [name: string]: JSONSchema };
+  /** Definitions container of draft-07 */
+  definitions?: { [name: string]: JSONSchema };
+
+  /** An array lists several types, e.g. `['string', 'null']` */
+  type?: JSONSchemaType | JSONSchemaType[];
+
+  // Annotations
+  title?: string;
   description?: string;
+  /** Not in OpenAPI 3.0, which uses a single `example` */
+  examples?: unknown[];
+  /** OpenAPI 3.0 only */
+  example?: unknown;
+  deprecated?: boolean;
+  readOnly?: boolean;
+  writeOnly?: boolean;
+  /** Not in OpenAPI 3.0 */
+  $comment?: string;
 
   // String validations
   minLength?: number;
   maxLength?: number;
   pattern?: string;
   format?: string;
+  /** Not in OpenAPI 3.0, which uses `format: 'byte'` instead */
+  contentEncoding?: string;
 
   // Number validations
   minimum?: number;
@@ -24,28 +44,284 @@ export interface JSONSchema {
   multipleOf?: number;
 
   // Array validations
-  items?: JSONSchema;
+  /** Array form is draft-07/2019-09 tuple syntax, replaced by `prefixItems` in 2020-12 */
+  items?: JSONSchema | JSONSchema[] | boolean;
+  /** 2020-12 and OpenAPI 3.1 */
+  prefixItems?: JSONSchema[];
+  /** draft-07 and 2019-09 */
+  additionalItems?: JSONSchema | boolean;
   minItems?: number;
   maxItems?: number;
+  uniqueItems?: boolean;
 
   // Object validations
   properties?: { [key: string]: JSONSchema };
   required?: string[];
   additionalProperties?: boolean | JSONSchema;
+  /** 2019-09 and later, and OpenAPI 3.1 */
+  unevaluatedProperties?: boolean | JSONSchema;
+  patternProperties?: { [pattern: string]: JSONSchema };
 
   // Enum
   enum?: (string | number | boolean)[];
 
   // Other
   default?: unknown;
+  /** Not available in OpenAPI 3.0, which uses a single-value `enum` */
   const?: unknown;
+  /** OpenAPI 3.0 only, replaces `null` in `type` */
+  nullable?: boolean;
 
-  // Combining schemas (not supported, but included for type completeness)
+  // Combining schemas
   anyOf?: JSONSchema[];
   oneOf?: JSONSchema[];
   allOf?: JSONSchema[];
   not?: JSONSchema;
 
+  // OpenAPI discriminator object for `oneOf` unions (OpenAPI 3.0 and 3.1)
+  discriminator?: {
+    propertyName: string;
+    mapping?: { [value: string]: string };
+  };
+
   // Allow arbitrary extensions (e.g., x- prefixed custom properties)
   [key: `x-${string}`]: unknown;
 }
+
+/**
+ * Value of the `type` keyword
+ */
+export type JSONSchemaType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'object'
+  | 'array'
+  | 'null';
+
+/**
+ * Handler applying a JSDoc tag to the schema of the annotated type or property
+ */
+export interface TagHandler {
+  /** Tag name without the `@` */
+  name: string;
+  /** Schema types the tag applies to; other schemas ignore it. Applies to all when omitted */
+  types?: readonly JSONSchemaType[];
+  /** Apply the tag text to the schema */
+  apply: (schema: JSONSchema, text: string) => void;
+}
+
+/**
+ * Set of JSDoc tag handlers, keyed by tag name
+ */
+export interface TagRegistry {
+  /** Add a handler, replacing any handler with the same name */
+  register(handler: TagHandler): TagRegistry;
+  /** Remove the handler of a tag */
+  unregister(name: string): TagRegistry;
+  get(name: string): TagHandler | undefined;
+}
+
+/**
+ * What to do with JSDoc tags that have no handler: forward them as
+ * `x-` extensions, drop them, or throw
+ */
+export type UnknownTagPolicy = 'extension' | 'drop' | 'error';
+
+/**
+ * Kind of problem found while compiling
+ */
+export type DiagnosticCode =
+  | 'unsupported-type'
+  | 'unresolved-type-parameter'
+  | 'recursive-type'
+  | 'unsupported-tuple'
+  | 'ignored-required-property'
+  | 'unsupported-index-key'
+  | 'unknown-tag'
+  | 'function-member'
+  | 'impossible-type'
+  | 'name-collision'
+  | 'missing-definitions'
+  | 'unsupported-parameter'
+  | 'invalid-route';
+
+/**
+ * A problem found while compiling, with where it happened
+ */
+export interface Diagnostic {
+  code: DiagnosticCode;
+  message: string;
+  /** Nearest declaration of the offending type or property */
+  node?: ts.Node;
+  /** JSON pointer of the offending schema, relative to the document root */
+  path: string;
+}
+
+/**
+ * JSON Schema dialect to emit
+ */
+export type SchemaTarget =
+  | 'draft-07'
+  | '2019-09'
+  | '2020-12'
+  | 'openapi-3.0'
+  | 'openapi-3.1';
+
+/**
+ * What a type mapper can use to build its schema
+ */
+export interface TypeMapperContext {
+  typeChecker: ts.TypeChecker;
+  options: CompileOptions;
+  /** Compile a nested type (e.g. a type argument) with the current options */
+  compile: (type: ts.Type) => JSONSchema;
+}
+
+/**
+ * Custom rule for a type, returning undefined to fall through to the next
+ * mapper and finally to the built-in rules
+ */
+export type TypeMapper = (
+  type: ts.Type,
+  context: TypeMapperContext
+) => JSONSchema | undefined;
+
+/**
+ * Options for compiling TypeScript types to JSON Schema
+ */
+export interface CompileOptions {
+  /**
+   * Drop `undefined` members from a top-level union (used for optional properties)
+   */
+  ignoreUndefinedInUnion?: boolean;
+
+  /**
+   * How `undefined` maps to JSON Schema: `null` (default) emits it as JSON
+   * `null`, `omit` drops it from unions and leaves out properties that can
+   * only be `undefined`
+   */
+  undefinedAs?: 'null' | 'omit';
+
+  /**
+   * Treat required properties whose type includes `undefined`
+   * (`x: T | undefined`) as optional. Defaults to false.
+   */
+  undefinedIsOptional?: boolean;
+
+  /**
+   * How unions with `null` are emitted: `anyOf` (default), `type` for a type
+   * array such as `['string', 'null']` when the other member is a plain typed
+   * schema, or `nullable` for the OpenAPI flag (the default for `openapi-3.0`)
+   */
+  nullStyle?: 'anyOf' | 'type' | 'nullable';
+
+  /**
+   * Mirror TypeScript's `exactOptionalPropertyTypes`: optional properties
+   * declared as `x?: T | undefined` keep `undefined`, while `x?: T` only
+   * makes the property optional. The program API uses the program's setting.
+   */
+  exactOptionalPropertyTypes?: boolean;
+
+  /**
+   * Emit an OpenAPI-style `discriminator` next to the `oneOf` of discriminated unions
+   */
+  discriminator?: boolean;
+
+  /**
+   * Target dialect. Defaults to 2020-12 keywords without a `$schema`;
+   * an explicit JSON Schema target also adds `$schema` to the root.
+   */
+  target?: SchemaTarget;
+
+  /**
+   * Hoist named interfaces, type aliases and enums into `$defs` and reference them with `$ref`
+   */
+  useReferences?: boolean;
+
+  /**
+   * Naming strategy for `$defs` keys; returning undefined inlines the type
+   */
+  definitionName?: (
+    type: ts.Type,
+    typeChecker: ts.TypeChecker
+  ) => string | undefined;
+
+  /**
+   * How to name a type whose definition key is already taken by another type:
+   * `'suffix'` (default) appends `_2`, `_3`, … in the order the types are
+   * first referenced, `'error'` reports a `name-collision` diagnostic
+   */
+  nameCollisions?: 'suffix' | 'error';
+
+  /**
+   * Collect hoisted definitions into this object instead of attaching them
+   * to the root schema (e.g. an OpenAPI `components.schemas` object)
+   */
+  definitions?: { [name: string]: JSONSchema };
+
+  /**
+   * Custom type mappers, consulted in order before the standard library
+   * mappers and the built-in rules
+   */
+  mappers?: TypeMapper[];
+
+  /**
+   * Schemas for type parameters by name, used when compiling a generic
+   * declaration itself as a template
+   */
+  typeArguments?: { [name: string]: JSONSchema };
+
+  /**
+   * Map standard library types such as `Date`, `bigint`, `Map` and `Set`
+   * (see `standardMappers`). Defaults to true.
+   */
+  standardMappers?: boolean;
+
+  /**
+   * JSDoc tag handlers, defaults to the built-in handlers (see `createTagRegistry`)
+   */
+  tags?: TagRegistry;
+
+  /**
+   * Policy for JSDoc tags without a handler, defaults to `extension`
+   */
+  unknownTags?: UnknownTagPolicy;
+
+  /**
+   * Policy for methods and function-typed properties: `skip` (default) leaves
+   * them out, `error` reports a `function-member` diagnostic
+   */
+  functionMembers?: 'skip' | 'error';
+
+  /**
+   * Set `title` to the declaration name of interfaces, classes, enums and
+   * type aliases unless they have a `@title` tag. Defaults to false.
+   */
+  titles?: boolean;
+
+  /**
+   * Disallow properties not declared by object types, with
+   * `additionalProperties: false` (or `unevaluatedProperties: false` on
+   * intersections). `@additionalProperties` overrides it per type. Defaults
+   * to false.
+   */
+  closedObjects?: boolean;
+
+  /**
+   * How enum values are labeled with their member names and descriptions:
+   * `enum` (default) emits only the values, `oneOf` emits one
+   * `{ const, title, description }` per value, and `varnames` adds the
+   * `x-enum-varnames` and `x-enum-descriptions` extensions to `enum`
+   */
+  enumStyle?: 'enum' | 'oneOf' | 'varnames';
+
+  /**
+   * Largest union of string literals emitted as `enum`, defaults to 100.
+   * Larger unions, such as finite template literals the checker expanded
+   * (`` `${Digit}${Digit}${Digit}` ``), become an alternation `pattern` instead.
+   * Enum members are always emitted as `enum`.
+   */
+  maxEnumValues?: number;
+}
@@ -1,14 +1,24 @@
 import ts from 'typescript';
-import type { JSONSchema } from './types';
+import { appliesTo, defaultTagRegistry, parseTagValue } from './tags';
+import type { CompileOptions, JSONSchema, TagHandler } from './types';
 
 /**
- * Extract JSDoc tags from a TypeScript symbol
+ * Undo the escaping of comment terminators, which cannot appear verbatim
+ * in a JSDoc comment
+ */
+function unescapeComment(text: string): string {
+  return text.replace(/\*\\\//g, '*/');
+}
+
+/**
+ * Extract JSDoc tags from a TypeScript symbol, keeping every occurrence of
+ * repeated tags in source order
  */
 export function extractJSDocTags(
   symbol: ts.Symbol | undefined,
   typeChecker: ts.TypeChecker
-): Map<string, string> {
-  const tags = new Map<string, string>();
+): Map<string, string[]> {
+  const tags = new Map<string, string[]>();
 
   if (!symbol) {
     return tags;
@@ -19,8 +29,10 @@ export function extractJSDocTags(
 
   for (const tag of jsDocTags) {
     const tagName = tag.name;
-    const tagText = tag.text?.map((part) => part.text).join('') || '';
-    tags.set(tagName, tagText);
+    const tagText = unescapeComment(
+      tag.text?.map((part) => part.text).join('') || ''
+    );
+    tags.set(tagName, [...(tags.get(tagName) ?? []), tagText]);
   }
 
   return tags;
@@ -39,153 +51,71 @@ export function getDescription(
 
   const documentation = symbol.getDocumentationComment(typeChecker);
   if (documentation.length > 0) {
-    return documentation.map((part) => part.text).join('');
+    return unescapeComment(documentation.map((part) => part.text).join(''));
   }
 
   return undefined;
 }
 
 /**
- * Parse a float value from a JSDoc tag
+ * Convert camelCase to kebab-case
  */
-export function parseFloatTag(
-  tags: Map<string, string>,
-  tagName: string
-): number | undefined {
-  if (tags.has(tagName)) {
-    const value = parseFloat(tags.get(tagName)!);
-    if (!isNaN(value)) {
-      return value;
-    }
-  }
-  return undefined;
+function camelToKebab(str: string): string {
+  return str.replace(/([a-z])([A-Z])/g, '$1-$2').toLowerCase();
 }
 
 /**
- * Parse an integer value from a JSDoc tag
+ * The schemas a tag handler applies to: the schema itself, or the non-null
+ * members of a nullable `anyOf` such as the one of `string | null`
  */
-export function parseIntTag(
-  tags: Map<string, string>,
-  tagName: string
-): number | undefined {
-  if (tags.has(tagName)) {
-    const value = parseInt(tags.get(tagName)!, 10);
-    if (!isNaN(value)) {
-      return value;
-    }
+function getTagTargets(handler: TagHandler, schema: JSONSchema): JSONSchema[] {
+  if (appliesTo(handler, schema)) {
+    return [schema];
   }
-  return undefined;
-}
-
-/**
- * Convert camelCase to kebab-case
- */
-function camelToKebab(str: string): string {
-  return str.replace(/([a-z])([A-Z])/g, '$1-$2').toLowerCase();
+  const members = schema.anyOf ?? [];
+  if (!members.some((member) => member.type === 'null')) {
+    return [];
+  }
+  return members.filter(
+    (member) => member.type !== 'null' && appliesTo(handler, member)
+  );
 }
 
 /**
- * Apply JSDoc tags to JSON Schema
+ * Apply JSDoc tags to JSON Schema through the tag registry, once per
+ * occurrence, handling tags without a handler according to the unknown tag
+ * policy. Returns the names of tags rejected by the `error` policy.
  */
 export function applyJSDocTags(
   schema: JSONSchema,
-  tags: Map<string, string>,
-  description?: string
-): void {
+  tags: Map<string, string[]>,
+  description?: string,
+  options: Pick<CompileOptions, 'tags' | 'unknownTags'> = {}
+): string[] {
+  const { tags: registry = defaultTagRegistry, unknownTags = 'extension' } =
+    options;
+
   if (description) {
     schema.description = description;
   }
 
-  // Number validations
-  if (schema.type === 'number' || schema.type === 'integer') {
-    const minimum = parseFloatTag(tags, 'minimum');
-    if (minimum !== undefined) {
-      schema.minimum = minimum;
-    }
-
-    const maximum = parseFloatTag(tags, 'maximum');
-    if (maximum !== undefined) {
-      schema.maximum = maximum;
-    }
-
-    const multipleOf = parseFloatTag(tags, 'multipleOf');
-    if (multipleOf !== undefined) {
-      schema.multipleOf = multipleOf;
-    }
-
-    if (tags.has('integer')) {
-      schema.type = 'integer';
-    }
-  }
-
-  // String validations
-  if (schema.type === 'string') {
-    const minLength = parseIntTag(tags, 'minLength');
-    if (minLength !== undefined) {
-      schema.minLength = minLength;
-    }
-
-    const maxLength = parseIntTag(tags, 'maxLength');
-    if (maxLength !== undefined) {
-      schema.maxLength = maxLength;
-    }
-
-    if (tags.has('pattern')) {
-      schema.pattern = tags.get('pattern');
-    }
-
-    if (tags.has('format')) {
-      schema.format = tags.get('format');
-    }
-  }
-
-  // Array validations
-  if (schema.type === 'array') {
-    const minItems = parseIntTag(tags, 'minItems');
-    if (minItems !== undefined) {
-      schema.minItems = minItems;
-    }
-
-    const maxItems = parseIntTag(tags, 'maxItems');
-    if (maxItems !== undefined) {
-      schema.maxItems = maxItems;
-    }
-  }
-
-  // Default value
-  if (tags.has('default')) {
-    const defaultValue = tags.get('default');
-    try {
-      schema.default = JSON.parse(defaultValue!);
-    } catch {
-      schema.default = defaultValue;
-    }
-  }
-
-  // Known tags set
-  const knownTags = new Set([
-    'minimum',
-    'maximum',
-    'multipleOf',
-    'integer',
-    'minLength',
-    'maxLength',
-    'pattern',
-    'format',
-    'minItems',
-    'maxItems',
-    'default',
-  ]);
-
-  // Apply unknown tags as x- extensions
-  for (const [tagName, tagText] of tags) {
-    if (!knownTags.has(tagName)) {
-      const kebabTagName = camelToKebab(tagName);
-      try {
-        schema[`x-${kebabTagName}`] = JSON.parse(tagText);
-      } catch {
-        schema[`x-${kebabTagName}`] = tagText;
+  const rejected: string[] = [];
+  for (const [tagName, tagTexts] of tags) {
+    const handler = registry.get(tagName);
+    if (handler) {
+      for (const target of getTagTargets(handler, schema)) {
+        for (const tagText of tagTexts) {
+          handler.apply(target, tagText);
+        }
       }
+    } else if (unknownTags === 'error') {
+      rejected.push(tagName);
+    } else if (unknownTags === 'extension') {
+      // Repeated tags become an array of values
+      const values = tagTexts.map(parseTagValue);
+      schema[`x-${camelToKebab(tagName)}`] =
+        values.length === 1 ? values[0] : values;
     }
   }
+  return rejected;
 }
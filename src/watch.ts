@@ -0,0 +1,289 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import ts from 'typescript';
+import { compile } from './compiler';
+import {
+  DEFAULT_COMPILER_OPTIONS,
+  getTypeSymbols,
+  isGenericDeclaration,
+} from './program';
+import type { CompileOptions, JSONSchema } from './types';
+
+/**
+ * A schema whose content changed after an update
+ */
+export interface SchemaChange {
+  name: string;
+  schema: JSONSchema;
+}
+
+/**
+ * Result of recompiling the affected types of a new program
+ */
+export interface UpdateResult {
+  changes: SchemaChange[];
+  errors: { name: string; error: Error }[];
+}
+
+/**
+ * Compiler that keeps the schemas of an entry file's types across programs
+ */
+export interface IncrementalCompiler {
+  /** Latest successfully compiled schemas by type name */
+  readonly schemas: ReadonlyMap<string, JSONSchema>;
+  /**
+   * Recompile the types whose declarations or dependencies changed since the
+   * previous program, reporting only schemas whose content changed
+   */
+  update(program: ts.Program): UpdateResult;
+}
+
+/** Compiled state of one type */
+interface CompiledType {
+  schema: JSONSchema;
+  json: string;
+  /** Source files the schema was compiled from, by file name */
+  dependencies: Map<string, ts.SourceFile>;
+}
+
+/**
+ * Collect the source files declaring a symbol and, transitively, every type
+ * its declarations reference. Default library files are assumed unchanged.
+ */
+function collectDependencies(
+  symbol: ts.Symbol,
+  program: ts.Program
+): Map<string, ts.SourceFile> {
+  const typeChecker = program.getTypeChecker();
+  const dependencies = new Map<string, ts.SourceFile>();
+  const visited = new Set<ts.Symbol>();
+
+  const visitSymbol = (target: ts.Symbol | undefined) => {
+    if (!target || visited.has(target)) {
+      return;
+    }
+    visited.add(target);
+    if (target.flags & ts.SymbolFlags.Alias) {
+      visitSymbol(typeChecker.getAliasedSymbol(target));
+      return;
+    }
+    for (const declaration of target.getDeclarations() ?? []) {
+      const sourceFile = declaration.getSourceFile();
+      if (program.isSourceFileDefaultLibrary(sourceFile)) {
+        continue;
+      }
+      dependencies.set(sourceFile.fileName, sourceFile);
+      visitNode(declaration);
+    }
+  };
+
+  const visitNode = (node: ts.Node): void => {
+    if (ts.isTypeReferenceNode(node)) {
+      visitSymbol(typeChecker.getSymbolAtLocation(node.typeName));
+    } else if (ts.isExpressionWithTypeArguments(node)) {
+      visitSymbol(typeChecker.getSymbolAtLocation(node.expression));
+    } else if (ts.isTypeQueryNode(node)) {
+      visitSymbol(typeChecker.getSymbolAtLocation(node.exprName));
+    } else if (ts.isImportTypeNode(node) && node.qualifier) {
+      visitSymbol(typeChecker.getSymbolAtLocation(node.qualifier));
+    }
+    ts.forEachChild(node, visitNode);
+  };
+
+  visitSymbol(symbol);
+  return dependencies;
+}
+
+/**
+ * Create a compiler for the given types of an entry file, or all of its
+ * exported types when typeNames is omitted. Unchanged source files keep their
+ * `ts.SourceFile` identity across builder programs, which is how unaffected
+ * types are detected.
+ */
+export function createIncrementalCompiler(
+  entry: string,
+  typeNames?: readonly string[],
+  options: CompileOptions = {}
+): IncrementalCompiler {
+  const fileName = path.resolve(entry);
+  const compiled = new Map<string, CompiledType>();
+  const schemas = new Map<string, JSONSchema>();
+
+  const isUpToDate = (state: CompiledType, program: ts.Program) =>
+    [...state.dependencies].every(
+      ([dependency, sourceFile]) =>
+        program.getSourceFile(dependency) === sourceFile
+    );
+
+  const update = (program: ts.Program): UpdateResult => {
+    const result: UpdateResult = { changes: [], errors: [] };
+    const sourceFile = program.getSourceFile(fileName);
+    if (!sourceFile) {
+      throw new Error(`Cannot read entry file: ${entry}`);
+    }
+
+    const typeChecker = program.getTypeChecker();
+    const symbols = getTypeSymbols(sourceFile, typeChecker, !typeNames);
+    // Generic declarations have no schema of their own
+    const names =
+      typeNames ??
+      [...symbols]
+        .filter(([, symbol]) => !isGenericDeclaration(symbol))
+        .map(([name]) => name);
+
+    for (const name of compiled.keys()) {
+      if (!names.includes(name)) {
+        compiled.delete(name);
+        schemas.delete(name);
+      }
+    }
+
+    for (const name of names) {
+      const previous = compiled.get(name);
+      if (previous && isUpToDate(previous, program)) {
+        continue;
+      }
+
+      const symbol = symbols.get(name);
+      if (!symbol) {
+        result.errors.push({
+          name,
+          error: new Error(`Type not found in ${entry}: ${name}`),
+        });
+        continue;
+      }
+
+      const dependencies = collectDependencies(symbol, program);
+
+      let schema: JSONSchema;
+      try {
+        schema = compile(
+          typeChecker.getDeclaredTypeOfSymbol(symbol),
+          typeChecker,
+          {
+            exactOptionalPropertyTypes:
+              program.getCompilerOptions().exactOptionalPropertyTypes,
+            ...options,
+          }
+        );
+      } catch (error) {
+        result.errors.push({ name, error: error as Error });
+        continue;
+      }
+
+      const json = JSON.stringify(schema);
+      compiled.set(name, { schema, json, dependencies });
+      schemas.set(name, schema);
+      if (previous?.json !== json) {
+        result.changes.push({ name, schema });
+      }
+    }
+
+    return result;
+  };
+
+  return { schemas, update };
+}
+
+/**
+ * Options for watchTypes
+ */
+export interface WatchOptions extends CompileOptions {
+  /** Compiler options for the watched program, defaults to `{ strict: true }` */
+  compilerOptions?: ts.CompilerOptions;
+  /** Directory to write `<TypeName>.schema.json` files into */
+  outDir?: string;
+  /** Called for each schema whose content changed, including the initial run */
+  onChange?: (change: SchemaChange) => void;
+  /** Called for syntax errors and types that fail to compile */
+  onError?: (error: Error, typeName?: string) => void;
+}
+
+/**
+ * A running watch, stopped with close()
+ */
+export interface SchemaWatcher {
+  close(): void;
+}
+
+/**
+ * Write a file unless it already has the given content
+ */
+function writeIfChanged(file: string, content: string): void {
+  try {
+    if (fs.readFileSync(file, 'utf8') === content) {
+      return;
+    }
+  } catch {
+    // Missing file, write it below
+  }
+  fs.writeFileSync(file, content);
+}
+
+/**
+ * Watch an entry file and its dependencies, recompiling the affected types on
+ * every change. Files in outDir are only rewritten when their content changes.
+ */
+export function watchTypes(
+  entry: string,
+  typeNames?: readonly string[],
+  options: WatchOptions = {}
+): SchemaWatcher {
+  const {
+    compilerOptions = DEFAULT_COMPILER_OPTIONS,
+    outDir,
+    onChange,
+    onError,
+    ...compileOptions
+  } = options;
+  const compiler = createIncrementalCompiler(entry, typeNames, compileOptions);
+
+  const host = ts.createWatchCompilerHost(
+    [path.resolve(entry)],
+    compilerOptions,
+    ts.sys,
+    ts.createSemanticDiagnosticsBuilderProgram,
+    () => {},
+    () => {}
+  );
+
+  host.afterProgramCreate = (builder) => {
+    const program = builder.getProgram();
+    const syntaxErrors = program.getSyntacticDiagnostics();
+    if (syntaxErrors.length > 0) {
+      onError?.(
+        new Error(
+          ts.flattenDiagnosticMessageText(syntaxErrors[0]!.messageText, '\n')
+        )
+      );
+      return;
+    }
+
+    let result: UpdateResult;
+    try {
+      result = compiler.update(program);
+    } catch (error) {
+      onError?.(error as Error);
+      return;
+    }
+
+    for (const { name, error } of result.errors) {
+      onError?.(error, name);
+    }
+    if (outDir && result.changes.length > 0) {
+      fs.mkdirSync(outDir, { recursive: true });
+    }
+    for (const change of result.changes) {
+      if (outDir) {
+        writeIfChanged(
+          path.join(outDir, `${change.name}.schema.json`),
+          `${JSON.stringify(change.schema, null, 2)}\n`
+        );
+      }
+      onChange?.(change);
+    }
+  };
+
+  const watch = ts.createWatchProgram(host);
+  return { close: () => watch.close() };
+}
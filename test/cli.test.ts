@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { run } from '../src/cli';
+
+function runCli(argv: string[]): {
+  code: number;
+  stdout: string;
+  stderr: string;
+} {
+  let stdout = '';
+  let stderr = '';
+  const code = run(argv, {
+    stdout: (text) => (stdout += text),
+    stderr: (text) => (stderr += text),
+  });
+  return { code, stdout, stderr };
+}
+
+describe('cli', () => {
+  let dir: string;
+  let entry: string;
+  let project: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ts-json-schema-'));
+    entry = path.join(dir, 'api.ts');
+    project = path.join(dir, 'tsconfig.json');
+    fs.writeFileSync(project, '{ "compilerOptions": { "strict": true } }');
+    fs.writeFileSync(
+      entry,
+      `
+        export interface User { name: string; age?: number; }
+        export type Status = 'active' | 'banned';
+        export interface Broken { id: symbol; }
+        interface Internal { secret: string; }
+      `
+    );
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should print a single schema to stdout', () => {
+    const { code, stdout } = runCli(['-p', project, entry, 'User']);
+    expect(code).toBe(0);
+    expect(JSON.parse(stdout)).toEqual({
+      type: 'object',
+      properties: { name: { type: 'string' }, age: { type: 'number' } },
+      required: ['name'],
+    });
+  });
+
+  it('should print several schemas keyed by name', () => {
+    const { code, stdout } = runCli(['-p', project, entry, 'User', 'Status']);
+    expect(code).toBe(0);
+    expect(Object.keys(JSON.parse(stdout))).toEqual(['User', 'Status']);
+  });
+
+  it('should write exported types to files and report failures', () => {
+    const out = path.join(dir, 'out');
+    const { code, stderr } = runCli(['-p', project, entry, '--all', '-o', out]);
+    expect(code).toBe(1);
+    expect(stderr).toContain('Cannot compile type Broken: Unsupported type');
+    expect(fs.readdirSync(out).sort()).toEqual([
+      'Status.schema.json',
+      'User.schema.json',
+    ]);
+  });
+
+  it('should bundle types into one document', () => {
+    const { code, stdout } = runCli([
+      '-p',
+      project,
+      entry,
+      'User',
+      'Status',
+      '--bundle',
+    ]);
+    expect(code).toBe(0);
+    expect(Object.keys(JSON.parse(stdout).$defs)).toEqual(['Status', 'User']);
+  });
+
+  it('should skip exported generic declarations with --all', () => {
+    const generic = path.join(dir, 'generic.ts');
+    fs.writeFileSync(
+      generic,
+      `
+        export interface Page<T> { items: T[]; }
+        export interface User { name: string; }
+        export type Users = Page<User>;
+      `
+    );
+    const { code, stdout, stderr } = runCli(['-p', project, generic, '--all']);
+    expect(stderr).toBe('');
+    expect(code).toBe(0);
+    expect(Object.keys(JSON.parse(stdout))).toEqual(['User', 'Users']);
+  });
+
+  it('should fail on OpenAPI components claimed by different types', () => {
+    const shared = path.join(dir, 'shared');
+    fs.mkdirSync(shared);
+    fs.writeFileSync(
+      path.join(shared, 'a.ts'),
+      'export interface User { name: string; }'
+    );
+    fs.writeFileSync(
+      path.join(shared, 'b.ts'),
+      'export interface User { id: number; }'
+    );
+    const api = path.join(shared, 'api.ts');
+    fs.writeFileSync(
+      api,
+      `
+        import type { User as Author } from './b';
+        export type { User } from './a';
+        export interface Post { author: Author; }
+      `
+    );
+    const { code, stdout, stderr } = runCli([
+      '-p',
+      project,
+      api,
+      'Post',
+      'User',
+      '-r',
+      '-t',
+      'openapi-3.1',
+    ]);
+    expect(code).toBe(1);
+    expect(stderr).toContain(
+      'Cannot compile type User: Definition name User is already used'
+    );
+    const { schemas } = JSON.parse(stdout).components;
+    expect(schemas.Post.properties.author).toEqual({
+      $ref: '#/components/schemas/User',
+    });
+    expect(schemas.User.properties).toEqual({ id: { type: 'number' } });
+  });
+
+  it('should report unknown types', () => {
+    const { code, stderr } = runCli(['-p', project, entry, 'Missing']);
+    expect(code).toBe(1);
+    expect(stderr).toContain('Type not found');
+  });
+
+  it('should reject missing arguments', () => {
+    const { code, stderr } = runCli([entry]);
+    expect(code).toBe(2);
+    expect(stderr).toContain('Usage: ts-json-schema');
+  });
+});
@@ -1,6 +1,27 @@
 import { describe, it, expect } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
 import ts from 'typescript';
-import { compile } from '../src/index';
+import {
+  bundleTypes,
+  clearSchemaCache,
+  compile,
+  compileBundle,
+  CompileError,
+  compileParameters,
+  compileTool,
+  compileType,
+  compileWithDiagnostics,
+  createTagRegistry,
+  emitTypeScript,
+  generateOpenAPI,
+  getDefinitionName,
+  getProgram,
+  loadType,
+  type JSONSchema,
+  type MCPToolDefinition,
+} from '../src/index';
 
 function createProgramAndTypeChecker(code: string): {
   program: ts.Program;
@@ -107,6 +128,71 @@ describe('ts-json-schema', () => {
       const schema = compile(type, typeChecker);
       expect(schema).toEqual({ enum: [1, 2, 3] });
     });
+
+    const colors = `
+      enum Color {
+        /** Warm color */
+        Red = 'red',
+        Blue = 'blue',
+      }
+      type T = Color | 'red' | 'green';
+    `;
+
+    it('should deduplicate enum members and literals', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(colors);
+      expect(compile(type, typeChecker)).toEqual({
+        enum: ['red', 'blue', 'green'],
+      });
+    });
+
+    it('should label enum members with oneOf', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(colors);
+      expect(compile(type, typeChecker, { enumStyle: 'oneOf' })).toEqual({
+        oneOf: [
+          { const: 'red', title: 'Red', description: 'Warm color' },
+          { const: 'blue', title: 'Blue' },
+          { const: 'green' },
+        ],
+      });
+    });
+
+    it('should label enum members with extensions', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(colors);
+      expect(compile(type, typeChecker, { enumStyle: 'varnames' })).toEqual({
+        enum: ['red', 'blue', 'green'],
+        'x-enum-varnames': ['Red', 'Blue', 'green'],
+        'x-enum-descriptions': ['Warm color', '', ''],
+      });
+    });
+
+    it('should compile const and heterogeneous enums', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        const enum Mixed {
+          Auto,
+          Named = 'named',
+          Next = 5,
+          After,
+        }
+        type T = Mixed;
+      `);
+      expect(compile(type, typeChecker, { enumStyle: 'varnames' })).toEqual({
+        enum: [0, 'named', 5, 6],
+        'x-enum-varnames': ['Auto', 'Named', 'Next', 'After'],
+      });
+    });
+
+    it('should report computed enum members', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        enum Sizes {
+          Small = 'abc'.length,
+          Large = 10,
+        }
+        type T = Sizes;
+      `);
+      expect(() => compile(type, typeChecker)).toThrow(
+        'Enum member has a computed value: Sizes.Small'
+      );
+    });
   });
 
   describe('array types', () => {
@@ -121,6 +207,61 @@ describe('ts-json-schema', () => {
     });
   });
 
+  describe('tuple types', () => {
+    it('should compile fixed tuples with prefixItems', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(
+        'type T = [number, string];'
+      );
+      const schema = compile(type, typeChecker);
+      expect(schema).toEqual({
+        type: 'array',
+        prefixItems: [{ type: 'number' }, { type: 'string' }],
+        items: false,
+        minItems: 2,
+        maxItems: 2,
+      });
+    });
+
+    it('should compile optional, rest and labeled elements', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(
+        'type T = [x: number, y?: number, ...rest: string[]];'
+      );
+      const schema = compile(type, typeChecker);
+      expect(schema).toEqual({
+        type: 'array',
+        prefixItems: [
+          { type: 'number', description: 'x' },
+          { type: 'number', description: 'y' },
+        ],
+        items: { type: 'string' },
+        minItems: 1,
+      });
+    });
+
+    it('should use array-form items for older drafts', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(
+        'type T = [string, ...number[]];'
+      );
+      const schema = compile(type, typeChecker, { target: 'draft-07' });
+      expect(schema).toEqual({
+        $schema: 'http://json-schema.org/draft-07/schema#',
+        type: 'array',
+        items: [{ type: 'string' }],
+        additionalItems: { type: 'number' },
+        minItems: 1,
+      });
+    });
+
+    it('should throw for elements after a rest element', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(
+        'type T = [...string[], number];'
+      );
+      expect(() => compile(type, typeChecker)).toThrow(
+        'Tuple elements after a rest element are not supported'
+      );
+    });
+  });
+
   describe('object types', () => {
     it('should compile simple object type', () => {
       const { typeChecker, type } = createProgramAndTypeChecker(`
@@ -228,138 +369,2194 @@ describe('ts-json-schema', () => {
       );
     });
 
-    it('should keep required properties with explicit undefined unions unsupported', () => {
+    it('should keep explicit undefined in required property unions', () => {
       const { typeChecker, type } = createProgramAndTypeChecker(`
         interface Person {
           age: number | undefined;
         }
         type T = Person;
       `);
-      expect(() => compile(type, typeChecker)).toThrow(
-        'Complex union types are not supported. Only literal type unions (enums) are supported.'
-      );
+      const schema = compile(type, typeChecker);
+      expect(schema).toEqual({
+        type: 'object',
+        properties: {
+          age: { anyOf: [{ type: 'number' }, { type: 'null' }] },
+        },
+        required: ['age'],
+      });
     });
   });
 
-  describe('intersection types', () => {
-    it('should merge two object types', () => {
+  describe('union types', () => {
+    it('should compile non-literal unions as anyOf', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(
+        'type T = string | number[];'
+      );
+      const schema = compile(type, typeChecker);
+      expect(schema).toEqual({
+        anyOf: [
+          { type: 'string' },
+          { type: 'array', items: { type: 'number' } },
+        ],
+      });
+    });
+
+    it('should group literal members and fold booleans', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(
+        "type T = number[] | 'a' | 'b' | boolean;"
+      );
+      const schema = compile(type, typeChecker);
+      expect(schema).toEqual({
+        anyOf: [
+          { type: 'boolean' },
+          { type: 'array', items: { type: 'number' } },
+          { enum: ['a', 'b'] },
+        ],
+      });
+    });
+
+    it('should compile discriminated unions as oneOf', () => {
       const { typeChecker, type } = createProgramAndTypeChecker(`
-        interface A { name: string; }
-        interface B { age: number; }
-        type T = A & B;
+        type T = { kind: 'a'; x: number } | { kind: 'b'; y: string };
       `);
       const schema = compile(type, typeChecker);
       expect(schema).toEqual({
-        type: 'object',
-        properties: {
-          name: { type: 'string' },
-          age: { type: 'number' },
-        },
-        required: ['name', 'age'],
+        oneOf: [
+          {
+            type: 'object',
+            properties: {
+              kind: { type: 'string', const: 'a' },
+              x: { type: 'number' },
+            },
+            required: ['kind', 'x'],
+          },
+          {
+            type: 'object',
+            properties: {
+              kind: { type: 'string', const: 'b' },
+              y: { type: 'string' },
+            },
+            required: ['kind', 'y'],
+          },
+        ],
       });
     });
 
-    it('should merge object with optional properties', () => {
+    it('should emit discriminator when requested', () => {
       const { typeChecker, type } = createProgramAndTypeChecker(`
-        interface A { name: string; }
-        interface B { age?: number; }
-        type T = A & B;
+        type T = { type: 'circle'; r: number } | { type: 'square'; size: number };
+      `);
+      const schema = compile(type, typeChecker, { discriminator: true });
+      expect(schema.oneOf).toHaveLength(2);
+      expect(schema.discriminator).toEqual({ propertyName: 'type' });
+    });
+
+    it('should not treat shared literal values as a discriminator', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        type T = { kind: 'a'; x: number } | { kind: 'a'; y: string };
       `);
+      const schema = compile(type, typeChecker, { discriminator: true });
+      expect(schema.oneOf).toBeUndefined();
+      expect(schema.anyOf).toHaveLength(2);
+    });
+  });
+
+  describe('template literal types', () => {
+    it('should compile template literals to anchored patterns', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(
+        'type T = `#${string}`;'
+      );
       const schema = compile(type, typeChecker);
       expect(schema).toEqual({
-        type: 'object',
-        properties: {
-          name: { type: 'string' },
-          age: { type: 'number' },
-        },
-        required: ['name'],
+        type: 'string',
+        pattern: '^#[\\s\\S]*$',
       });
+      expect(new RegExp(schema.pattern!).test('#a\nb')).toBe(true);
     });
 
-    it('should use allOf for mixed intersections', () => {
+    it('should compile number holes', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(
+        'type T = `user_${number}`;'
+      );
+      const schema = compile(type, typeChecker);
+      expect(schema.type).toBe('string');
+      expect(new RegExp(schema.pattern!).test('user_42')).toBe(true);
+      expect(new RegExp(schema.pattern!).test('user_x')).toBe(false);
+    });
+
+    it('should merge distributed template literal unions into one pattern', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(
+        "type T = `${'GET' | 'POST'} /api/${string}` | 'none';"
+      );
+      const schema = compile(type, typeChecker);
+      expect(schema.type).toBe('string');
+      const pattern = new RegExp(schema.pattern!);
+      expect(pattern.test('GET /api/users')).toBe(true);
+      expect(pattern.test('none')).toBe(true);
+      expect(pattern.test('PUT /api/users')).toBe(false);
+    });
+
+    it('should escape regular expression characters in literal text', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(
+        'type T = `v1.${number}+build`;'
+      );
+      const schema = compile(type, typeChecker);
+      expect(new RegExp(schema.pattern!).test('v1.2+build')).toBe(true);
+      expect(new RegExp(schema.pattern!).test('v1x2build')).toBe(false);
+    });
+
+    it('should expand finite template literals into an enum', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(
+        "type T = `${'a' | 'b'}-${1 | 2}`;"
+      );
+      const schema = compile(type, typeChecker);
+      expect(schema).toEqual({ enum: ['a-1', 'a-2', 'b-1', 'b-2'] });
+    });
+
+    it('should match large finite template literals with a pattern', () => {
       const { typeChecker, type } = createProgramAndTypeChecker(`
-        type T = { name: string } & string[];
+        type D = '0' | '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9';
+        type T = \`\${D}\${D}\${D}\`;
       `);
       const schema = compile(type, typeChecker);
-      expect(schema.allOf).toBeDefined();
-      expect(schema.allOf).toHaveLength(2);
+      expect(schema.type).toBe('string');
+      expect(schema.enum).toBeUndefined();
+      const pattern = new RegExp(schema.pattern!);
+      expect(pattern.test('042')).toBe(true);
+      expect(pattern.test('42')).toBe(false);
+      expect(pattern.test('0420')).toBe(false);
+    });
+
+    it('should expand finite template literals up to maxEnumValues', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(
+        "type T = `${'a' | 'b'}-${1 | 2}`;"
+      );
+      expect(compile(type, typeChecker, { maxEnumValues: 4 })).toEqual({
+        enum: ['a-1', 'a-2', 'b-1', 'b-2'],
+      });
+      expect(compile(type, typeChecker, { maxEnumValues: 3 })).toEqual({
+        type: 'string',
+        pattern: '^(?:a-1|a-2|b-1|b-2)$',
+      });
     });
   });
 
-  describe('JSDoc tags', () => {
-    it('should apply description from JSDoc', () => {
+  describe('index signatures', () => {
+    it('should map string index signatures to additionalProperties', () => {
       const { typeChecker, type } = createProgramAndTypeChecker(`
-        interface Test {
-          /** This is a string */
-          prop: string;
-        }
-        type T = Test;
+        interface Foo { id: string; }
+        type T = { [key: string]: Foo };
       `);
       const schema = compile(type, typeChecker);
-      expect(schema.properties?.prop?.description).toBe('This is a string');
+      expect(schema).toEqual({
+        type: 'object',
+        properties: {},
+        additionalProperties: {
+          type: 'object',
+          properties: { id: { type: 'string' } },
+          required: ['id'],
+        },
+      });
     });
 
-    it('should apply minimum tag', () => {
+    it('should compile Record with string keys', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(
+        'type T = Record<string, number>;'
+      );
+      const schema = compile(type, typeChecker);
+      expect(schema).toEqual({
+        type: 'object',
+        properties: {},
+        additionalProperties: { type: 'number' },
+      });
+    });
+
+    it('should allow any value for unknown index signatures', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(
+        'type T = Record<string, unknown>;'
+      );
+      const schema = compile(type, typeChecker);
+      expect(schema.additionalProperties).toBe(true);
+    });
+
+    it('should map template literal keys to patternProperties', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(
+        'type T = Record<`x-${string}`, string>;'
+      );
+      const schema = compile(type, typeChecker);
+      expect(schema).toEqual({
+        type: 'object',
+        properties: {},
+        patternProperties: { '^x-[\\s\\S]*$': { type: 'string' } },
+      });
+    });
+
+    it('should reference recursive index signature values', () => {
       const { typeChecker, type } = createProgramAndTypeChecker(`
-        interface Test {
-          /** @minimum 10 */
-          prop: number;
-        }
-        type T = Test;
+        type Json =
+          | string
+          | number
+          | boolean
+          | null
+          | Json[]
+          | { [key: string]: Json };
+        type T = Json;
       `);
+      const schema = compile(type, typeChecker, { useReferences: true });
+      expect(schema.$defs?.Json?.anyOf).toContainEqual({
+        type: 'object',
+        properties: {},
+        additionalProperties: { $ref: '#/$defs/Json' },
+      });
+    });
+
+    it('should expand finite literal keys into required properties', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(
+        "type T = Record<'a' | 'b', boolean>;"
+      );
       const schema = compile(type, typeChecker);
-      expect(schema.properties?.prop?.minimum).toBe(10);
+      expect(schema).toEqual({
+        type: 'object',
+        properties: { a: { type: 'boolean' }, b: { type: 'boolean' } },
+        required: ['a', 'b'],
+      });
     });
+  });
 
-    it('should apply minLength tag', () => {
+  describe('references', () => {
+    it('should hoist named types into $defs', () => {
       const { typeChecker, type } = createProgramAndTypeChecker(`
-        interface Test {
-          /** @minLength 5 */
-          prop: string;
-        }
-        type T = Test;
+        interface Address { city: string; }
+        interface Person { home: Address; work?: Address; }
+        type T = Person;
       `);
-      const schema = compile(type, typeChecker);
-      expect(schema.properties?.prop?.minLength).toBe(5);
+      const schema = compile(type, typeChecker, { useReferences: true });
+      expect(schema).toEqual({
+        $ref: '#/$defs/Person',
+        $defs: {
+          Person: {
+            type: 'object',
+            properties: {
+              home: { $ref: '#/$defs/Address' },
+              work: { $ref: '#/$defs/Address' },
+            },
+            required: ['home'],
+          },
+          Address: {
+            type: 'object',
+            properties: { city: { type: 'string' } },
+            required: ['city'],
+          },
+        },
+      });
     });
 
-    it('should not apply minimum tag to string type', () => {
+    it('should hoist named aliases and enums of optional properties', () => {
       const { typeChecker, type } = createProgramAndTypeChecker(`
-        interface Test {
-          /** @minimum 10 */
-          prop: string;
-        }
-        type T = Test;
+        type Status = 'active' | 'archived';
+        enum Color { Red = 'red', Green = 'green' }
+        interface Item { status?: Status; color?: Color; }
+        type T = Item;
       `);
-      const schema = compile(type, typeChecker);
-      expect(schema.properties?.prop).toEqual({ type: 'string' });
+      const schema = compile(type, typeChecker, { useReferences: true });
+      expect(schema.$defs?.Item?.properties).toEqual({
+        status: { $ref: '#/$defs/Status' },
+        color: { $ref: '#/$defs/Color' },
+      });
+      expect(schema.$defs?.Status).toEqual({ enum: ['active', 'archived'] });
+      expect(schema.$defs?.Color).toEqual({ enum: ['red', 'green'] });
     });
 
-    it('should not apply minLength tag to number type', () => {
+    it('should reference recursive types', () => {
       const { typeChecker, type } = createProgramAndTypeChecker(`
-        interface Test {
-          /** @minLength 5 */
-          prop: number;
-        }
-        type T = Test;
+        interface TreeNode { children: TreeNode[]; }
+        type T = TreeNode;
       `);
-      const schema = compile(type, typeChecker);
-      expect(schema.properties?.prop).toEqual({ type: 'number' });
+      const schema = compile(type, typeChecker, { useReferences: true });
+      expect(schema.$defs?.TreeNode).toEqual({
+        type: 'object',
+        properties: {
+          children: { type: 'array', items: { $ref: '#/$defs/TreeNode' } },
+        },
+        required: ['children'],
+      });
     });
 
-    it('should apply unknown tags as x- extensions', () => {
+    it('should throw for recursive types without references', () => {
       const { typeChecker, type } = createProgramAndTypeChecker(`
-        interface Test {
-          /** @customTag value */
-          prop: string;
-        }
-        type T = Test;
+        interface TreeNode { children: TreeNode[]; }
+        type T = TreeNode;
       `);
-      const schema = compile(type, typeChecker);
-      expect(schema.properties?.prop).toEqual({
+      expect(() => compile(type, typeChecker)).toThrow(
+        'Recursive type requires the useReferences option: TreeNode'
+      );
+    });
+
+    it('should use a custom naming strategy', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        enum Color { Red = 'red', Blue = 'blue' }
+        type T = { color: Color };
+      `);
+      const schema = compile(type, typeChecker, {
+        useReferences: true,
+        definitionName: (t, tc) => {
+          const name = getDefinitionName(t, tc);
+          return name === 'T' ? undefined : name && `Api.${name}`;
+        },
+      });
+      expect(schema).toEqual({
+        type: 'object',
+        properties: { color: { $ref: '#/$defs/Api.Color' } },
+        required: ['color'],
+        $defs: { 'Api.Color': { enum: ['red', 'blue'] } },
+      });
+    });
+
+    it('should map discriminator values to definitions', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        interface Cat { kind: 'cat'; }
+        interface Dog { kind: 'dog'; }
+        type T = Cat | Dog;
+      `);
+      const schema = compile(type, typeChecker, {
+        useReferences: true,
+        discriminator: true,
+      });
+      expect(schema.$defs?.T?.discriminator).toEqual({
+        propertyName: 'kind',
+        mapping: { cat: '#/$defs/Cat', dog: '#/$defs/Dog' },
+      });
+    });
+  });
+
+  describe('dialects', () => {
+    it('should add $schema for explicit JSON Schema targets', () => {
+      const { typeChecker, type } =
+        createProgramAndTypeChecker('type T = string;');
+      const schema = compile(type, typeChecker, { target: '2020-12' });
+      expect(schema).toEqual({
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
         type: 'string',
-        'x-custom-tag': 'value',
       });
     });
+
+    it('should use definitions for draft-07', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        interface A { b: B; }
+        interface B { x: string; }
+        type T = A;
+      `);
+      const schema = compile(type, typeChecker, {
+        target: 'draft-07',
+        useReferences: true,
+      });
+      expect(schema.$ref).toBe('#/definitions/A');
+      expect(schema.$defs).toBeUndefined();
+      expect(schema.definitions?.A?.properties?.b).toEqual({
+        $ref: '#/definitions/B',
+      });
+    });
+
+    it('should emit nullable and single-value enums for OpenAPI 3.0', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        interface Test {
+          name: string | null;
+          kind: 'user';
+          tags: ['a' | 'b', number];
+        }
+        type T = Test;
+      `);
+      const schema = compile(type, typeChecker, { target: 'openapi-3.0' });
+      expect(schema).toEqual({
+        type: 'object',
+        properties: {
+          name: { type: 'string', nullable: true },
+          kind: { type: 'string', enum: ['user'] },
+          tags: {
+            type: 'array',
+            items: { anyOf: [{ enum: ['a', 'b'] }, { type: 'number' }] },
+            minItems: 2,
+            maxItems: 2,
+          },
+        },
+        required: ['name', 'kind', 'tags'],
+      });
+    });
+
+    it('should collect OpenAPI definitions into components', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        interface User { name: string; }
+        type T = { owner: User | null };
+      `);
+      const schemas = {};
+      const schema = compile(type, typeChecker, {
+        target: 'openapi-3.0',
+        useReferences: true,
+        definitions: schemas,
+      });
+      expect(schema).toEqual({ $ref: '#/components/schemas/T' });
+      expect(schemas).toEqual({
+        T: {
+          type: 'object',
+          properties: {
+            owner: {
+              allOf: [{ $ref: '#/components/schemas/User' }],
+              nullable: true,
+            },
+          },
+          required: ['owner'],
+        },
+        User: {
+          type: 'object',
+          properties: { name: { type: 'string' } },
+          required: ['name'],
+        },
+      });
+    });
+
+    it('should require a definitions sink for OpenAPI references', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        interface User { name: string; }
+        type T = User;
+      `);
+      expect(() =>
+        compile(type, typeChecker, {
+          target: 'openapi-3.1',
+          useReferences: true,
+        })
+      ).toThrow('OpenAPI targets require the definitions option');
+    });
+
+    it('should not overwrite definitions of other types with the same name', () => {
+      const first = createProgramAndTypeChecker(`
+        interface User { name: string; }
+        type T = { owner: User };
+      `);
+      const second = createProgramAndTypeChecker(`
+        interface User { id: number; }
+        type T = { members: User[] };
+      `);
+      const options = { target: 'openapi-3.1', useReferences: true } as const;
+      const schemas: { [name: string]: JSONSchema } = {};
+      compile(first.type, first.typeChecker, {
+        ...options,
+        definitions: schemas,
+      });
+      const schema = compile(second.type, second.typeChecker, {
+        ...options,
+        definitions: schemas,
+      });
+      expect(schema).toEqual({ $ref: '#/components/schemas/T_2' });
+      expect(schemas.User!.properties).toEqual({ name: { type: 'string' } });
+      expect(schemas.User_2!.properties).toEqual({ id: { type: 'number' } });
+      expect(schemas.T_2!.properties!.members).toEqual({
+        type: 'array',
+        items: { $ref: '#/components/schemas/User_2' },
+      });
+
+      expect(() =>
+        compile(second.type, second.typeChecker, {
+          ...options,
+          definitions: { ...schemas },
+          nameCollisions: 'error',
+        })
+      ).toThrow(
+        'Definition name T is already used by a different schema in definitions'
+      );
+    });
+  });
+
+  describe('compileType', () => {
+    const source = `
+      /** A user */
+      export interface User { name: string; }
+      export enum Role { Admin = 'admin', Guest = 'guest' }
+      export class Point { x = 0; y = 0; }
+      type Id = \`user_\${number}\`;
+    `;
+
+    it('should compile declarations from in-memory source', () => {
+      expect(compileType({ source }, 'User')).toEqual({
+        type: 'object',
+        description: 'A user',
+        properties: { name: { type: 'string' } },
+        required: ['name'],
+      });
+      expect(compileType({ source }, 'Role')).toEqual({
+        enum: ['admin', 'guest'],
+      });
+      expect(compileType({ source }, 'Point')).toEqual({
+        type: 'object',
+        properties: { x: { type: 'number' }, y: { type: 'number' } },
+        required: ['x', 'y'],
+      });
+      expect(compileType({ source }, 'Id').type).toBe('string');
+    });
+
+    it('should compile declarations from a file', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ts-json-schema-'));
+      try {
+        const file = path.join(dir, 'types.ts');
+        fs.writeFileSync(file, 'export type Flag = boolean;');
+        expect(compileType({ file }, 'Flag')).toEqual({ type: 'boolean' });
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should rebuild programs when an imported file changes', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ts-json-schema-'));
+      try {
+        const file = path.join(dir, 'api.ts');
+        const imported = path.join(dir, 'id.ts');
+        fs.writeFileSync(imported, 'export type Id = number;');
+        fs.writeFileSync(
+          file,
+          "import type { Id } from './id';\nexport interface User { id: Id }"
+        );
+        const first = loadType({ file }, 'User');
+        expect(compileType({ file }, 'User').properties!.id).toEqual({
+          type: 'number',
+        });
+
+        fs.writeFileSync(imported, 'export type Id = string;');
+        // Keep the check independent of the file system's timestamp resolution
+        const later = new Date(Date.now() + 10_000);
+        fs.utimesSync(imported, later, later);
+        expect(compileType({ file }, 'User').properties!.id).toEqual({
+          type: 'string',
+        });
+        expect(loadType({ file }, 'User').program).not.toBe(first.program);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should reuse programs across calls', () => {
+      const first = loadType({ source }, 'User');
+      const second = loadType({ source }, 'Role');
+      expect(second.program).toBe(first.program);
+    });
+
+    it('should compile loaded types like a fresh program', () => {
+      const code = `
+        interface Address { city: string; }
+        interface Person { home: Address; tags?: string[]; }
+        type T = Person;
+      `;
+      const fresh = createProgramAndTypeChecker(code);
+      const loaded = loadType({ source: code, fileName: 'test.ts' }, 'T', {});
+      for (const options of [{}, { useReferences: true }]) {
+        const expected = compile(fresh.type, fresh.typeChecker, options);
+        // The second compilation is served from the schema cache
+        for (let i = 0; i < 2; i++) {
+          expect(compile(loaded.type, loaded.typeChecker, options)).toEqual(
+            expected
+          );
+        }
+      }
+    });
+
+    it('should throw for unknown type names', () => {
+      expect(() => compileType({ source }, 'Missing')).toThrow(
+        'Type not found: Missing'
+      );
+    });
+  });
+
+  describe('function signatures', () => {
+    function loadFunction(code: string): {
+      typeChecker: ts.TypeChecker;
+      declaration: ts.FunctionDeclaration;
+    } {
+      const { program, fileName } = getProgram({ source: code });
+      const declaration = program
+        .getSourceFile(fileName)!
+        .statements.find(ts.isFunctionDeclaration)!;
+      return { typeChecker: program.getTypeChecker(), declaration };
+    }
+
+    it('should compile parameters with @param descriptions', () => {
+      const { typeChecker, declaration } = loadFunction(`
+        /**
+         * Search the knowledge base
+         * @param query Text to search for
+         * @param limit Maximum number of results
+         */
+        function search(query: string, limit?: number, exact = false) {}
+      `);
+      expect(compileParameters(declaration, typeChecker)).toEqual({
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Text to search for' },
+          limit: { type: 'number', description: 'Maximum number of results' },
+          exact: { type: 'boolean' },
+        },
+        required: ['query'],
+      });
+    });
+
+    it('should strip the hyphen of TSDoc @param comments', () => {
+      const { typeChecker, declaration } = loadFunction(`
+        /** @param query - The search query */
+        function search(query: string) {}
+      `);
+      expect(
+        compileParameters(declaration, typeChecker).properties!.query
+      ).toEqual({ type: 'string', description: 'The search query' });
+    });
+
+    it('should not require rest parameters', () => {
+      const { typeChecker, declaration } = loadFunction(`
+        function tag(id: string, ...tags: string[]) {}
+      `);
+      expect(compileParameters(declaration, typeChecker)).toEqual({
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          tags: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['id'],
+      });
+    });
+
+    it('should report destructured parameters beside others', () => {
+      const { typeChecker, declaration } = loadFunction(`
+        function move(id: string, { x, y }: { x: number; y: number }) {}
+      `);
+      let error: unknown;
+      try {
+        compileParameters(declaration, typeChecker);
+      } catch (e) {
+        error = e;
+      }
+      expect(error).toBeInstanceOf(CompileError);
+      const { diagnostic, message } = error as CompileError;
+      expect(diagnostic.code).toBe('unsupported-parameter');
+      expect(message).toMatch(
+        /^Destructured parameters are only supported as the only parameter \(.*:2:35\)$/
+      );
+    });
+
+    it('should flatten a single destructured parameter', () => {
+      const { typeChecker, declaration } = loadFunction(`
+        interface Options { path: string; recursive?: boolean; }
+        function list({ path, recursive }: Options) {}
+      `);
+      expect(compileParameters(declaration, typeChecker)).toEqual({
+        type: 'object',
+        properties: {
+          path: { type: 'string' },
+          recursive: { type: 'boolean' },
+        },
+        required: ['path'],
+      });
+    });
+
+    it('should inline a destructured parameter of a named type', () => {
+      const { typeChecker, declaration } = loadFunction(`
+        interface Tag { name: string; }
+        interface Options { path: string; tags: Tag[]; }
+        /** List files */
+        function list({ path, tags }: Options) {}
+      `);
+      const tool = compileTool(declaration, typeChecker, {
+        format: 'mcp',
+        useReferences: true,
+      }) as MCPToolDefinition;
+      expect(tool.inputSchema).toEqual({
+        type: 'object',
+        properties: {
+          path: { type: 'string' },
+          tags: { type: 'array', items: { $ref: '#/$defs/Tag' } },
+        },
+        required: ['path', 'tags'],
+        $defs: {
+          Tag: {
+            type: 'object',
+            properties: { name: { type: 'string' } },
+            required: ['name'],
+          },
+        },
+      });
+    });
+
+    it('should emit OpenAI and MCP tool definitions', () => {
+      const { typeChecker, declaration } = loadFunction(`
+        /** Get the weather for a city */
+        function getWeather(city: string) {}
+      `);
+      const parameters: JSONSchema = {
+        type: 'object',
+        properties: { city: { type: 'string' } },
+        required: ['city'],
+      };
+      expect(compileTool(declaration, typeChecker)).toEqual({
+        name: 'getWeather',
+        description: 'Get the weather for a city',
+        parameters,
+      });
+      expect(
+        compileTool(declaration, typeChecker, {
+          format: 'mcp',
+          name: 'get_weather',
+        })
+      ).toEqual({
+        name: 'get_weather',
+        description: 'Get the weather for a city',
+        inputSchema: parameters,
+      });
+    });
+  });
+
+  describe('type mappers', () => {
+    const compilerOptions = { strict: true, target: ts.ScriptTarget.ESNext };
+
+    it('should map standard library types', () => {
+      const source = `
+        interface Activity {
+          at: Date;
+          id: bigint;
+          counts: Map<string, number>;
+          tags: Set<string>;
+          payload: Uint8Array;
+        }
+      `;
+      expect(compileType({ source }, 'Activity', { compilerOptions })).toEqual({
+        type: 'object',
+        properties: {
+          at: { type: 'string', format: 'date-time' },
+          id: { type: 'string', pattern: '^-?\\d+$' },
+          counts: { type: 'object', additionalProperties: { type: 'number' } },
+          tags: { type: 'array', items: { type: 'string' }, uniqueItems: true },
+          payload: { type: 'string', contentEncoding: 'base64' },
+        },
+        required: ['at', 'id', 'counts', 'tags', 'payload'],
+      });
+    });
+
+    it('should not compile the keys of a Map', () => {
+      const source = `
+        interface Registry { handlers: Map<symbol, number>; }
+      `;
+      expect(
+        compileType({ source }, 'Registry', { compilerOptions }).properties
+      ).toEqual({
+        handlers: { type: 'object', additionalProperties: { type: 'number' } },
+      });
+    });
+
+    it('should consult custom mappers first', () => {
+      const source = `
+        class Decimal { private digits = ''; }
+        interface Price {
+          /** @format date */
+          day: Date;
+          amount: Decimal;
+        }
+      `;
+      const schema = compileType({ source }, 'Price', {
+        compilerOptions,
+        mappers: [
+          (type) =>
+            type.getSymbol()?.getName() === 'Decimal'
+              ? { type: 'string', pattern: '^-?\\d+(\\.\\d+)?$' }
+              : undefined,
+        ],
+      });
+      expect(schema.properties).toEqual({
+        day: { type: 'string', format: 'date' },
+        amount: { type: 'string', pattern: '^-?\\d+(\\.\\d+)?$' },
+      });
+    });
+
+    it('should skip standard mappers when disabled', () => {
+      const source = 'type Id = bigint;';
+      expect(() =>
+        compileType({ source }, 'Id', {
+          compilerOptions,
+          standardMappers: false,
+        })
+      ).toThrow('Unsupported type');
+    });
+  });
+
+  describe('generic types', () => {
+    const source = `
+      interface User { name: string; }
+      interface Paginated<T> { items: T[]; total: number; }
+      type ApiResponse<T, E> = { data: T } | { error: E };
+      interface Model {
+        users: Paginated<User>;
+        names: Paginated<string>;
+        result: ApiResponse<User[], string>;
+      }
+    `;
+
+    it('should name instantiations after their type arguments', () => {
+      const schema = compileType({ source }, 'Model', { useReferences: true });
+      expect(schema.$defs?.Model?.properties).toEqual({
+        users: { $ref: '#/$defs/Paginated_User' },
+        names: { $ref: '#/$defs/Paginated_string' },
+        result: { $ref: '#/$defs/ApiResponse_Array_User_string' },
+      });
+      expect(Object.keys(schema.$defs!)).toEqual([
+        'Model',
+        'Paginated_User',
+        'User',
+        'Paginated_string',
+        'ApiResponse_Array_User_string',
+      ]);
+    });
+
+    it('should reject uninstantiated type parameters', () => {
+      expect(() => compileType({ source }, 'Paginated')).toThrow(
+        'Uninstantiated type parameter: T'
+      );
+    });
+
+    it('should compile templates with supplied type arguments', () => {
+      const schema = compileType({ source }, 'Paginated', {
+        typeArguments: { T: { $ref: '#/$defs/Item' } },
+      });
+      expect(schema).toEqual({
+        type: 'object',
+        properties: {
+          items: { type: 'array', items: { $ref: '#/$defs/Item' } },
+          total: { type: 'number' },
+        },
+        required: ['items', 'total'],
+      });
+    });
+  });
+
+  describe('OpenAPI documents', () => {
+    const source = `
+      interface User { id: string; name: string; }
+      interface NotFound { message: string; }
+      export interface Routes {
+        /**
+         * Get a user
+         * Returns a single user by id.
+         */
+        'GET /users/:id': {
+          params: {
+            /** User id */
+            id: string;
+          };
+          query: {
+            /** @minimum 1 */
+            version?: number;
+          };
+          response: User;
+          responses: {
+            /** User not found */
+            404: NotFound;
+          };
+        };
+        'POST /users': { body: Omit<User, 'id'>; response: User };
+        'DELETE /users/:id': { response: void };
+      }
+    `;
+
+    it('should generate paths and shared component schemas', () => {
+      const { type, typeChecker } = loadType({ source }, 'Routes');
+      const document = generateOpenAPI(type, typeChecker, {
+        info: { title: 'Users', version: '2.0.0' },
+      });
+      const userRef = { $ref: '#/components/schemas/User' };
+      expect(document.openapi).toBe('3.1.0');
+      expect(document.info).toEqual({ title: 'Users', version: '2.0.0' });
+      expect(document.paths['/users/{id}']).toEqual({
+        get: {
+          summary: 'Get a user',
+          description: 'Returns a single user by id.',
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              description: 'User id',
+              schema: { type: 'string' },
+            },
+            {
+              name: 'version',
+              in: 'query',
+              schema: { type: 'number', minimum: 1 },
+            },
+          ],
+          responses: {
+            200: {
+              description: 'Successful response',
+              content: { 'application/json': { schema: userRef } },
+            },
+            404: {
+              description: 'User not found',
+              content: {
+                'application/json': {
+                  schema: { $ref: '#/components/schemas/NotFound' },
+                },
+              },
+            },
+          },
+        },
+        delete: {
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: { type: 'string' },
+            },
+          ],
+          responses: { 204: { description: 'Successful response' } },
+        },
+      });
+      expect(document.paths['/users']?.post?.requestBody).toEqual({
+        required: true,
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/Omit_User_id' },
+          },
+        },
+      });
+      expect(Object.keys(document.components!.schemas)).toEqual([
+        'User',
+        'NotFound',
+        'Omit_User_id',
+      ]);
+    });
+
+    it('should reject malformed route keys', () => {
+      const { type, typeChecker } = loadType(
+        { source: "interface Routes { 'users': { response: string } }" },
+        'Routes'
+      );
+      let error: unknown;
+      try {
+        generateOpenAPI(type, typeChecker);
+      } catch (e) {
+        error = e;
+      }
+      expect(error).toBeInstanceOf(CompileError);
+      const { diagnostic, message } = error as CompileError;
+      expect(diagnostic.code).toBe('invalid-route');
+      expect(diagnostic.path).toBe('/paths');
+      expect(message).toMatch(/^Invalid route key: users, .*\(.*:1:20\)$/);
+    });
+  });
+
+  describe('TypeScript emitter', () => {
+    it('should round-trip declarations through JSON Schema', () => {
+      const source = `
+        /**
+         * A user account
+         * @title Account
+         */
+        export interface User {
+          /**
+           * Display name
+           * @example "alice"
+           * @example "bob"
+           * @minLength 1
+           * @pattern ^\\S
+           */
+          name: string;
+          /**
+           * @integer
+           * @minimum 0
+           * @deprecated
+           */
+          age?: number;
+          /** @writeonly */
+          password: string;
+          readonly role: 'admin' | 'guest';
+          point: [x: number, y?: number];
+          friends: User[];
+          /**
+           * @default {"theme":"dark"}
+           * @customTag hello
+           */
+          settings: { [key: string]: string };
+        }
+      `;
+      const schema = compileType({ source }, 'User', { useReferences: true });
+      const emitted = emitTypeScript(schema, { name: 'User' });
+      expect(
+        compileType({ source: emitted }, 'User', { useReferences: true })
+      ).toEqual(schema);
+    });
+
+    it('should escape comment terminators in JSDoc text', () => {
+      const schema: JSONSchema = {
+        type: 'object',
+        description: 'Matches /*/ paths',
+        properties: {
+          url: { type: 'string', pattern: '^https?://.*/$' },
+        },
+        required: ['url'],
+      };
+      const emitted = emitTypeScript(schema, { name: 'Link' });
+      expect(emitted).toContain('@pattern ^https?://.*\\/$');
+      expect(compileType({ source: emitted }, 'Link')).toEqual(schema);
+    });
+
+    it('should emit template literal types for nested patterns', () => {
+      const source = `
+        type Id = \`id-\${number}\`;
+        export interface Refs {
+          /** Own id */
+          id: Id;
+          list: Id[];
+          byName: { [name: string]: Id };
+          either: Id | boolean;
+        }
+      `;
+      const schema = compileType({ source }, 'Refs');
+      const emitted = emitTypeScript(schema, { name: 'Refs' });
+      expect(emitted).toContain('list: `id-${number}`[];');
+      expect(emitted).not.toContain('@pattern');
+      expect(compileType({ source: emitted }, 'Refs')).toEqual(schema);
+    });
+
+    it('should round-trip schemas with pattern properties', () => {
+      const schema: JSONSchema = {
+        type: 'object',
+        properties: { id: { type: 'string' } },
+        required: ['id'],
+        patternProperties: {
+          '^x-[\\s\\S]*$': { type: 'string' },
+          '^v-?\\d+\\.[\\s\\S]*$': { type: 'number' },
+          '^[a-z]{2}$': { type: 'boolean' },
+        },
+      };
+      const emitted = emitTypeScript(schema, { name: 'Headers' });
+      expect(emitted).toContain('[key: `x-${string}`]: string;');
+      expect(emitted).toContain('[key: `v${bigint}.${string}`]: number;');
+      expect(emitted).toContain(
+        '@patternProperties {"^[a-z]{2}$":{"type":"boolean"}}'
+      );
+      expect(compileType({ source: emitted }, 'Headers')).toEqual(schema);
+    });
+
+    it('should emit labeled oneOf enums as enum declarations', () => {
+      const source = `
+        /** Paint colors */
+        export enum Color {
+          /** Bright red */
+          Red = 'red',
+          Green = 'green',
+        }
+        export interface Box {
+          color: Color;
+          priority?: 1 | 2;
+        }
+      `;
+      for (const useReferences of [false, true]) {
+        const options = { enumStyle: 'oneOf', useReferences } as const;
+        const schema = compileType({ source }, 'Box', options);
+        const emitted = emitTypeScript(schema, { name: 'Box' });
+        expect(emitted).toContain('Red = "red",');
+        expect(compileType({ source: emitted }, 'Box', options)).toEqual(
+          schema
+        );
+      }
+    });
+
+    it('should emit type arrays as unions', () => {
+      const source = `
+        export interface Contact {
+          email: string | null;
+          /** @integer */
+          age: number | null;
+        }
+      `;
+      const options = { nullStyle: 'type' } as const;
+      const schema = compileType({ source }, 'Contact', options);
+      expect(schema.properties?.age).toEqual({ type: ['integer', 'null'] });
+      const emitted = emitTypeScript(schema, { name: 'Contact' });
+      expect(compileType({ source: emitted }, 'Contact', options)).toEqual(
+        schema
+      );
+    });
+
+    it('should emit declarations for definitions', () => {
+      const emitted = emitTypeScript(
+        {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            owner: { $ref: '#/components/schemas/Owner', nullable: true },
+            items: {
+              type: 'array',
+              items: { anyOf: [{ type: 'string' }, { type: 'number' }] },
+            },
+          },
+          required: ['id'],
+          $defs: {
+            Owner: {
+              allOf: [
+                { $ref: '#/$defs/Base' },
+                { type: 'object', properties: { name: { type: 'string' } } },
+              ],
+            },
+          },
+        },
+        { name: 'Order' }
+      );
+      expect(emitted).toBe(
+        [
+          'export interface Order {',
+          '  /** @format uuid */',
+          '  id: string;',
+          '  owner?: Owner | null;',
+          '  items?: (string | number)[];',
+          '}',
+          '',
+          'export type Owner = Base & {',
+          '  name?: string;',
+          '};',
+          '',
+        ].join('\n')
+      );
+    });
+  });
+
+  describe('diagnostics', () => {
+    const source = `
+      interface User {
+        name: string;
+        id: symbol;
+      }
+      interface Model {
+        user: User;
+        /** @ignore */
+        version: number;
+        tags: [...string[], number];
+      }
+      type T = Model;
+    `;
+
+    it('should throw with the schema path and source location', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(source);
+      let error: unknown;
+      try {
+        compile(type, typeChecker);
+      } catch (e) {
+        error = e;
+      }
+      expect(error).toBeInstanceOf(CompileError);
+      const { diagnostic, message } = error as CompileError;
+      expect(diagnostic.code).toBe('unsupported-type');
+      expect(diagnostic.path).toBe('/properties/user/properties/id');
+      expect(message).toMatch(
+        /^Unsupported type: symbol \(at \/properties\/user\/properties\/id, .*test\.ts:4:9\)$/
+      );
+    });
+
+    it('should collect all diagnostics with placeholders', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(source);
+      const { schema, diagnostics } = compileWithDiagnostics(type, typeChecker);
+      expect(diagnostics.map(({ code, path }) => ({ code, path }))).toEqual([
+        { code: 'unsupported-type', path: '/properties/user/properties/id' },
+        { code: 'ignored-required-property', path: '' },
+        { code: 'unsupported-tuple', path: '/properties/tags' },
+      ]);
+      expect(schema.properties?.user?.properties?.id).toEqual({});
+      expect(schema.required).toEqual(['user', 'tags']);
+    });
+  });
+
+  describe('classes', () => {
+    const source = `
+      class Account {
+        static count = 0;
+        readonly id: string = '';
+        #secret = 1;
+        private token = '';
+        protected role = '';
+        onChange?: () => void;
+        constructor(
+          public name: string,
+          private password: string,
+          public nickname?: string
+        ) {}
+        get display(): string {
+          return this.name;
+        }
+        get age(): number {
+          return 0;
+        }
+        set age(value: number) {}
+        greet(): string {
+          return '';
+        }
+      }
+      type T = Account;
+    `;
+
+    it('should compile public data members only', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(source);
+      expect(compile(type, typeChecker)).toEqual({
+        type: 'object',
+        properties: {
+          id: { type: 'string', readOnly: true },
+          name: { type: 'string' },
+          nickname: { type: 'string' },
+          display: { type: 'string', readOnly: true },
+          age: { type: 'number' },
+        },
+        required: ['id', 'name', 'display', 'age'],
+      });
+    });
+
+    it('should mark readonly interface members', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        interface Point {
+          readonly x: number;
+          y: number;
+          toString(): string;
+        }
+        type T = Point;
+      `);
+      expect(compile(type, typeChecker)).toEqual({
+        type: 'object',
+        properties: {
+          x: { type: 'number', readOnly: true },
+          y: { type: 'number' },
+        },
+        required: ['x', 'y'],
+      });
+    });
+
+    it('should report function members when configured', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(source);
+      const { diagnostics } = compileWithDiagnostics(type, typeChecker, {
+        functionMembers: 'error',
+      });
+      expect(diagnostics.map(({ code, path }) => ({ code, path }))).toEqual([
+        { code: 'function-member', path: '/properties/onChange' },
+        { code: 'function-member', path: '/properties/greet' },
+      ]);
+    });
+  });
+
+  describe('mapped and conditional types', () => {
+    const user = `
+      interface User {
+        /**
+         * Display name
+         * @minLength 1
+         */
+        name: string;
+        /** Age in years */
+        age?: number;
+        readonly id: string;
+      }
+    `;
+    const name = {
+      type: 'string',
+      description: 'Display name',
+      minLength: 1,
+    } as const;
+    const age = { type: 'number', description: 'Age in years' } as const;
+
+    it('should keep metadata through utility types', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        ${user}
+        interface Test {
+          partial: Partial<User>;
+          picked: Pick<User, 'name'>;
+          required: Required<Omit<User, 'id'>>;
+        }
+        type T = Test;
+      `);
+      expect(compile(type, typeChecker).properties).toEqual({
+        partial: {
+          type: 'object',
+          properties: {
+            name,
+            age,
+            id: { type: 'string', readOnly: true },
+          },
+        },
+        picked: {
+          type: 'object',
+          properties: { name },
+          required: ['name'],
+        },
+        required: {
+          type: 'object',
+          properties: { name, age },
+          required: ['name', 'age'],
+        },
+      });
+    });
+
+    it('should apply mapped type modifiers', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        ${user}
+        type Mutable<T> = { -readonly [K in keyof T]: T[K] };
+        interface Test {
+          frozen: Readonly<User>;
+          mutable: Mutable<User>;
+        }
+        type T = Test;
+      `);
+      const { properties } = compile(type, typeChecker);
+      expect(properties?.frozen?.properties?.name?.readOnly).toBe(true);
+      expect(properties?.mutable?.properties?.id).toEqual({ type: 'string' });
+    });
+
+    it('should keep metadata of remapped keys', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        ${user}
+        type Getters<T> = {
+          [K in keyof T as \`get_\${string & K}\`]-?: T[K];
+        };
+        type T = Getters<User>;
+      `);
+      expect(compile(type, typeChecker)).toEqual({
+        type: 'object',
+        properties: {
+          get_name: name,
+          get_age: age,
+          get_id: { type: 'string', readOnly: true },
+        },
+        required: ['get_name', 'get_age', 'get_id'],
+      });
+    });
+
+    it('should compile resolved conditional types', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        ${user}
+        type Named<T> = T extends { name: string } ? T : never;
+        type T = Named<User> extends User ? Pick<User, 'name'> : never;
+      `);
+      expect(compile(type, typeChecker)).toEqual({
+        type: 'object',
+        properties: { name },
+        required: ['name'],
+      });
+    });
+
+    it('should report conditional types on type parameters', () => {
+      const source = `
+        export interface Box<V> {
+          kind: V extends string ? 'text' : 'other';
+        }
+      `;
+      expect(() =>
+        compileType({ source }, 'Box', {
+          typeArguments: { V: { type: 'string' } },
+        })
+      ).toThrow(
+        'Unresolved conditional type: V extends string ? "text" : "other"; compile an instantiation'
+      );
+    });
+  });
+
+  describe('null and undefined', () => {
+    const source = `
+      interface Test {
+        name: string | null;
+        nickname: string | undefined;
+        age?: number | undefined;
+        score: number | null | undefined;
+        removed: undefined;
+      }
+      type T = Test;
+    `;
+
+    it('should map undefined to null by default', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(source);
+      expect(compile(type, typeChecker)).toEqual({
+        type: 'object',
+        properties: {
+          name: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+          nickname: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+          age: { type: 'number' },
+          score: { anyOf: [{ type: 'number' }, { type: 'null' }] },
+          removed: { type: 'null' },
+        },
+        required: ['name', 'nickname', 'score', 'removed'],
+      });
+    });
+
+    it('should omit undefined and use type arrays', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(source);
+      expect(
+        compile(type, typeChecker, {
+          undefinedAs: 'omit',
+          undefinedIsOptional: true,
+          nullStyle: 'type',
+        })
+      ).toEqual({
+        type: 'object',
+        properties: {
+          name: { type: ['string', 'null'] },
+          nickname: { type: 'string' },
+          age: { type: 'number' },
+          score: { type: ['number', 'null'] },
+        },
+        required: ['name'],
+      });
+    });
+
+    it('should use nullable for any target', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(source);
+      const schema = compile(type, typeChecker, {
+        target: 'openapi-3.1',
+        nullStyle: 'nullable',
+      });
+      expect(schema.properties?.name).toEqual({
+        type: 'string',
+        nullable: true,
+      });
+    });
+
+    it('should respect exactOptionalPropertyTypes', () => {
+      const source = `
+        export interface Test {
+          explicit?: string | undefined;
+          absent?: string;
+        }
+      `;
+      const compilerOptions = {
+        strict: true,
+        exactOptionalPropertyTypes: true,
+      };
+      expect(compileType({ source }, 'Test', { compilerOptions })).toEqual({
+        type: 'object',
+        properties: {
+          explicit: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+          absent: { type: 'string' },
+        },
+      });
+      expect(compileType({ source }, 'Test').properties?.explicit).toEqual({
+        type: 'string',
+      });
+    });
+
+    it('should map undefined in object unions like other unions', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        interface Point { x: number; }
+        interface Test { point: Point | undefined; }
+        type T = Test;
+      `);
+      const point: JSONSchema = {
+        type: 'object',
+        properties: { x: { type: 'number' } },
+        required: ['x'],
+      };
+      expect(compile(type, typeChecker).properties?.point).toEqual({
+        anyOf: [point, { type: 'null' }],
+      });
+      expect(
+        compile(type, typeChecker, { undefinedAs: 'omit' }).properties?.point
+      ).toEqual(point);
+    });
+
+    it('should apply property tags to the non-null member', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        interface Test {
+          /**
+           * Nickname
+           * @minLength 2
+           */
+          nickname: string | null;
+        }
+        type T = Test;
+      `);
+      expect(compile(type, typeChecker).properties?.nickname).toEqual({
+        description: 'Nickname',
+        anyOf: [{ type: 'string', minLength: 2 }, { type: 'null' }],
+      });
+    });
+  });
+
+  describe('closed objects', () => {
+    it('should disallow undeclared properties', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        interface Test {
+          nested: { a: number };
+          scores: Record<string, number>;
+          /** @additionalProperties true */
+          extra: { b: string };
+        }
+        type T = Test;
+      `);
+      expect(compile(type, typeChecker, { closedObjects: true })).toEqual({
+        type: 'object',
+        properties: {
+          nested: {
+            type: 'object',
+            properties: { a: { type: 'number' } },
+            required: ['a'],
+            additionalProperties: false,
+          },
+          scores: {
+            type: 'object',
+            properties: {},
+            additionalProperties: { type: 'number' },
+          },
+          extra: {
+            type: 'object',
+            properties: { b: { type: 'string' } },
+            required: ['b'],
+            additionalProperties: true,
+          },
+        },
+        required: ['nested', 'scores', 'extra'],
+        additionalProperties: false,
+      });
+    });
+
+    it('should close a type with @additionalProperties false', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        /** @additionalProperties false */
+        interface Test {
+          name: string;
+        }
+        type T = Test;
+      `);
+      expect(compile(type, typeChecker)).toEqual({
+        type: 'object',
+        properties: { name: { type: 'string' } },
+        required: ['name'],
+        additionalProperties: false,
+      });
+    });
+
+    const intersection = `
+      interface Named {
+        name: string;
+        meta: { a: number };
+      }
+      type T = Named & string[];
+    `;
+
+    it('should close intersections with unevaluatedProperties', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(intersection);
+      const schema = compile(type, typeChecker, {
+        closedObjects: true,
+        useReferences: true,
+      });
+      expect(schema.$defs?.T).toEqual({
+        allOf: [
+          {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              meta: {
+                type: 'object',
+                properties: { a: { type: 'number' } },
+                required: ['a'],
+                additionalProperties: false,
+              },
+            },
+            required: ['name', 'meta'],
+          },
+          { type: 'array', items: { type: 'string' } },
+        ],
+        unevaluatedProperties: false,
+      });
+    });
+
+    it('should leave intersections open for draft-07', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(intersection);
+      const schema = compile(type, typeChecker, {
+        closedObjects: true,
+        target: 'draft-07',
+      });
+      expect(schema.unevaluatedProperties).toBeUndefined();
+      expect(schema.allOf?.[0]?.additionalProperties).toBeUndefined();
+      expect(schema.allOf?.[0]?.properties?.meta?.additionalProperties).toBe(
+        false
+      );
+    });
+  });
+
+  describe('intersection types', () => {
+    it('should merge two object types', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        interface A { name: string; }
+        interface B { age: number; }
+        type T = A & B;
+      `);
+      const schema = compile(type, typeChecker);
+      expect(schema).toEqual({
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          age: { type: 'number' },
+        },
+        required: ['name', 'age'],
+      });
+    });
+
+    it('should merge object with optional properties', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        interface A { name: string; }
+        interface B { age?: number; }
+        type T = A & B;
+      `);
+      const schema = compile(type, typeChecker);
+      expect(schema).toEqual({
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          age: { type: 'number' },
+        },
+        required: ['name'],
+      });
+    });
+
+    it('should use allOf for mixed intersections', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        type T = { name: string } & string[];
+      `);
+      const schema = compile(type, typeChecker);
+      expect(schema.allOf).toBeDefined();
+      expect(schema.allOf).toHaveLength(2);
+    });
+
+    it('should merge constraints of both sides', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        interface A {
+          /**
+           * @minimum 0
+           * @maximum 100
+           */
+          score: number;
+          /** @pattern ^a */
+          code: string;
+        }
+        interface B {
+          /** @minimum 10 */
+          score: number;
+          /** @pattern z$ */
+          code: string;
+        }
+        type T = B & A;
+      `);
+      const schema = compile(type, typeChecker);
+      expect(schema.properties).toEqual({
+        score: { type: 'number', minimum: 10, maximum: 100 },
+        code: {
+          type: 'string',
+          pattern: '^(?=[\\s\\S]*?(?:z$))(?=[\\s\\S]*?(?:^a))',
+        },
+      });
+      const pattern = new RegExp(schema.properties!.code!.pattern!);
+      expect(pattern.test('abz')).toBe(true);
+      expect(pattern.test('ab')).toBe(false);
+    });
+
+    it('should report conflicting constraints', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        interface A {
+          /** @minimum 10 */
+          score: number;
+        }
+        interface B {
+          /** @maximum 5 */
+          score: number;
+        }
+        type T = A & B;
+      `);
+      expect(() => compile(type, typeChecker)).toThrow(
+        'Conflicting constraints: minimum 10 is greater than maximum 5'
+      );
+    });
+
+    it('should report impossible intersections', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        interface Test {
+          value: { a: string } & { a: number };
+          tagged: { kind: 'a' } & { kind: 'b' };
+        }
+        type T = Test;
+      `);
+      const { diagnostics } = compileWithDiagnostics(type, typeChecker);
+      expect(diagnostics.map(({ code, path }) => ({ code, path }))).toEqual([
+        { code: 'impossible-type', path: '/properties/value/properties/a' },
+        { code: 'impossible-type', path: '/properties/tagged/properties/kind' },
+      ]);
+    });
+
+    it('should distribute over unions', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        interface Circle { kind: 'circle'; radius: number; }
+        interface Square { kind: 'square'; size: number; }
+        interface Meta { kind: 'circle' | 'square'; id: string; }
+        type T = (Circle | Square) & Meta;
+      `);
+      expect(compile(type, typeChecker)).toEqual({
+        anyOf: [
+          {
+            type: 'object',
+            properties: {
+              kind: { type: 'string', const: 'circle' },
+              radius: { type: 'number' },
+              id: { type: 'string' },
+            },
+            required: ['kind', 'radius', 'id'],
+          },
+          {
+            type: 'object',
+            properties: {
+              kind: { type: 'string', const: 'square' },
+              size: { type: 'number' },
+              id: { type: 'string' },
+            },
+            required: ['kind', 'size', 'id'],
+          },
+        ],
+      });
+    });
+
+    it('should compile branded primitives to the primitive', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        /** @minimum 1 */
+        type UserId = number & { __brand: 'UserId' };
+        interface Test {
+          id: UserId;
+        }
+        type T = Test;
+      `);
+      expect(compile(type, typeChecker).properties?.id).toEqual({
+        type: 'number',
+        minimum: 1,
+      });
+    });
+  });
+
+  describe('JSDoc tags', () => {
+    it('should apply description from JSDoc', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        interface Test {
+          /** This is a string */
+          prop: string;
+        }
+        type T = Test;
+      `);
+      const schema = compile(type, typeChecker);
+      expect(schema.properties?.prop?.description).toBe('This is a string');
+    });
+
+    it('should apply minimum tag', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        interface Test {
+          /** @minimum 10 */
+          prop: number;
+        }
+        type T = Test;
+      `);
+      const schema = compile(type, typeChecker);
+      expect(schema.properties?.prop?.minimum).toBe(10);
+    });
+
+    it('should apply minLength tag', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        interface Test {
+          /** @minLength 5 */
+          prop: string;
+        }
+        type T = Test;
+      `);
+      const schema = compile(type, typeChecker);
+      expect(schema.properties?.prop?.minLength).toBe(5);
+    });
+
+    it('should not apply minimum tag to string type', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        interface Test {
+          /** @minimum 10 */
+          prop: string;
+        }
+        type T = Test;
+      `);
+      const schema = compile(type, typeChecker);
+      expect(schema.properties?.prop).toEqual({ type: 'string' });
+    });
+
+    it('should not apply minLength tag to number type', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        interface Test {
+          /** @minLength 5 */
+          prop: number;
+        }
+        type T = Test;
+      `);
+      const schema = compile(type, typeChecker);
+      expect(schema.properties?.prop).toEqual({ type: 'number' });
+    });
+
+    it('should apply unknown tags as x- extensions', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        interface Test {
+          /** @customTag value */
+          prop: string;
+        }
+        type T = Test;
+      `);
+      const schema = compile(type, typeChecker);
+      expect(schema.properties?.prop).toEqual({
+        type: 'string',
+        'x-custom-tag': 'value',
+      });
+    });
+
+    it('should not forward documentation tags', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        interface Test {
+          /**
+           * @see https://example.com
+           * @remarks Internal detail
+           */
+          prop: string;
+        }
+        type T = Test;
+      `);
+      const schema = compile(type, typeChecker);
+      expect(schema.properties?.prop).toEqual({ type: 'string' });
+    });
+
+    it('should map annotation tags to standard keywords', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        /**
+         * @title Account
+         * @comment Synced from the billing service
+         */
+        interface Test {
+          /**
+           * @example "alice"
+           * @example "bob"
+           */
+          name: string;
+          /** @deprecated Use name */
+          login?: string;
+          /** @writeonly */
+          password: string;
+          readonly id: number;
+        }
+        type T = Test;
+      `);
+      expect(compile(type, typeChecker)).toEqual({
+        type: 'object',
+        properties: {
+          name: { type: 'string', examples: ['alice', 'bob'] },
+          login: { type: 'string', deprecated: true },
+          password: { type: 'string', writeOnly: true },
+          id: { type: 'number', readOnly: true },
+        },
+        required: ['name', 'password', 'id'],
+        title: 'Account',
+        $comment: 'Synced from the billing service',
+      });
+    });
+
+    it('should use a single example for OpenAPI 3.0', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        interface Test {
+          /**
+           * @example 1
+           * @example 2
+           * @comment Not in OpenAPI 3.0
+           */
+          count: number;
+        }
+        type T = Test;
+      `);
+      const schema = compile(type, typeChecker, { target: 'openapi-3.0' });
+      expect(schema.properties?.count).toEqual({ type: 'number', example: 1 });
+    });
+
+    it('should title named types with their declaration names', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        enum Color {
+          Red = 'red',
+          Blue = 'blue',
+        }
+        /** @title Owner */
+        interface User {
+          name: string;
+        }
+        interface Test {
+          color: Color;
+          user: User;
+          tags: string[];
+        }
+        type T = Test;
+      `);
+      expect(compile(type, typeChecker, { titles: true })).toEqual({
+        title: 'Test',
+        type: 'object',
+        properties: {
+          color: { title: 'Color', enum: ['red', 'blue'] },
+          user: {
+            title: 'Owner',
+            type: 'object',
+            properties: { name: { type: 'string' } },
+            required: ['name'],
+          },
+          tags: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['color', 'user', 'tags'],
+      });
+    });
+
+    it('should apply custom tag handlers', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        interface Test {
+          /** @minimum 1 @step 5 */
+          count: number;
+          /** @step 5 */
+          name: string;
+        }
+        type T = Test;
+      `);
+      const tags = createTagRegistry()
+        .unregister('minimum')
+        .register({
+          name: 'step',
+          types: ['number', 'integer'],
+          apply: (schema, text) => {
+            schema.multipleOf = Number(text);
+          },
+        });
+      const schema = compile(type, typeChecker, { tags, unknownTags: 'drop' });
+      expect(schema.properties).toEqual({
+        count: { type: 'number', multipleOf: 5 },
+        name: { type: 'string' },
+      });
+    });
+
+    it('should reject unknown tags when configured', () => {
+      const { typeChecker, type } = createProgramAndTypeChecker(`
+        interface Test {
+          /** @customTag value */
+          prop: string;
+        }
+        type T = Test;
+      `);
+      expect(() =>
+        compile(type, typeChecker, { unknownTags: 'error' })
+      ).toThrow('Unknown JSDoc tag: @customTag');
+    });
+  });
+
+  describe('bundles', () => {
+    const source = `
+      export type Id = string;
+      export interface Page<T> { items: T[] }
+      export interface Order { id: Id; owner: Member; lines: Page<Line> }
+      export interface Member { name: string }
+      export interface Line { sku: string }
+      export type Owner = Member;
+    `;
+
+    it('should compile all exports into sorted shared definitions', () => {
+      const schema = bundleTypes({ source });
+      expect(Object.keys(schema.$defs!)).toEqual([
+        'Id',
+        'Line',
+        'Member',
+        'Order',
+        'Owner',
+        'Page_Line',
+      ]);
+      expect(schema.$defs!.Id).toEqual({ type: 'string' });
+      expect(schema.$defs!.Owner).toEqual({ $ref: '#/$defs/Member' });
+      expect(schema.$defs!.Order!.properties!.lines).toEqual({
+        $ref: '#/$defs/Page_Line',
+      });
+    });
+
+    it('should not depend on the order of the listed types', () => {
+      const { program } = getProgram({ source });
+      const typeChecker = program.getTypeChecker();
+      const types = ['Order', 'Line', 'Member'].map(
+        (name) => [name, loadType({ source }, name).type] as [string, ts.Type]
+      );
+      const forward = compileBundle(new Map(types), typeChecker, {
+        target: 'draft-07',
+      });
+      const reverse = compileBundle(new Map(types.reverse()), typeChecker, {
+        target: 'draft-07',
+      });
+      expect(JSON.stringify(reverse)).toBe(JSON.stringify(forward));
+      expect(forward.$schema).toBe('http://json-schema.org/draft-07/schema#');
+      expect(Object.keys(forward.definitions!)).toEqual([
+        'Line',
+        'Member',
+        'Order',
+        'Page_Line',
+      ]);
+    });
+
+    it('should report types with the same name from different files', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ts-json-schema-'));
+      try {
+        fs.writeFileSync(
+          path.join(dir, 'a.ts'),
+          'export interface User { a: string }'
+        );
+        fs.writeFileSync(
+          path.join(dir, 'b.ts'),
+          'export interface User { b: number }'
+        );
+        const file = path.join(dir, 'entry.ts');
+        fs.writeFileSync(
+          file,
+          `
+            import type { User as A } from './a';
+            import type { User as B } from './b';
+            export interface Both { a: A; b: B }
+          `
+        );
+        expect(() => bundleTypes({ file })).toThrow(
+          /Definition name User is already used by the type declared at .*a\.ts:1:1 \(at \/\$defs\/Both\/properties\/b, .*b\.ts:1:1\)/
+        );
+        const schema = bundleTypes({ file }, undefined, {
+          nameCollisions: 'suffix',
+        });
+        expect(Object.keys(schema.$defs!)).toEqual(['Both', 'User', 'User_2']);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should suffix a listed name taken by another type', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ts-json-schema-'));
+      try {
+        fs.writeFileSync(
+          path.join(dir, 'b.ts'),
+          'export interface User { b: number }'
+        );
+        const file = path.join(dir, 'entry.ts');
+        fs.writeFileSync(
+          file,
+          `
+            import type { User as B } from './b';
+            export interface User { a: string }
+            export interface Both { b: B }
+          `
+        );
+        const schema = bundleTypes({ file }, undefined, {
+          nameCollisions: 'suffix',
+        });
+        expect(Object.keys(schema.$defs!)).toEqual(['Both', 'User', 'User_2']);
+        expect(schema.$defs!.Both!.properties!.b).toEqual({
+          $ref: '#/$defs/User',
+        });
+        expect(schema.$defs!.User_2!.properties).toEqual({
+          a: { type: 'string' },
+        });
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should report a listed name taken by another type', () => {
+      const schema = `
+        export interface Member { name: string }
+        export interface Team { lead: Member }
+      `;
+      const { program } = getProgram({ source: schema });
+      const typeChecker = program.getTypeChecker();
+      const types = new Map([
+        ['Team', loadType({ source: schema }, 'Team').type],
+        ['Member', loadType({ source: schema }, 'Team').type],
+      ]);
+      expect(() => compileBundle(types, typeChecker)).toThrow(
+        'Definition name Member is already used'
+      );
+    });
+  });
+
+  describe('schema cache', () => {
+    const source = `
+      /** @counted */
+      export interface Address { city: string }
+      export interface Person { name: string; home: Address; work?: Address }
+      export interface Company {
+        /** Head office @deprecated */
+        office: Address;
+        staff: Person[];
+      }
+    `;
+
+    function load(name: string) {
+      return loadType({ source }, name);
+    }
+
+    function countingTags() {
+      let count = 0;
+      const tags = createTagRegistry().register({
+        name: 'counted',
+        apply: () => {
+          count++;
+        },
+      });
+      return { tags, count: () => count };
+    }
+
+    it('should compile each named type once per checker and options', () => {
+      const { typeChecker, type } = load('Company');
+      clearSchemaCache(typeChecker);
+      const { tags, count } = countingTags();
+      const first = compile(type, typeChecker, { tags });
+      expect(count()).toBe(1);
+      expect(compile(type, typeChecker, { tags })).toEqual(first);
+      compile(load('Person').type, typeChecker, { tags });
+      expect(count()).toBe(1);
+
+      clearSchemaCache(typeChecker);
+      compile(type, typeChecker, { tags });
+      expect(count()).toBe(2);
+    });
+
+    it('should not share cached schemas with callers', () => {
+      const { typeChecker, type } = load('Company');
+      clearSchemaCache(typeChecker);
+      const options = { unknownTags: 'drop' as const };
+      const schema = compile(type, typeChecker, options);
+      expect(schema.properties!.office).toEqual({
+        type: 'object',
+        description: 'Head office',
+        deprecated: true,
+        properties: { city: { type: 'string' } },
+        required: ['city'],
+      });
+      schema.properties!.office!.properties!.city!.minLength = 1;
+
+      const person = compile(load('Person').type, typeChecker, options);
+      expect(person.properties!.home).toEqual({
+        type: 'object',
+        properties: { city: { type: 'string' } },
+        required: ['city'],
+      });
+      expect(person.properties!.work).toEqual(person.properties!.home!);
+    });
+
+    it('should restore the definitions referenced by cached schemas', () => {
+      const { typeChecker } = load('Company');
+      const options = { useReferences: true };
+      const compileAll = () =>
+        ['Person', 'Company', 'Address'].map((name) =>
+          JSON.stringify(compile(load(name).type, typeChecker, options))
+        );
+
+      clearSchemaCache(typeChecker);
+      const cached = compileAll();
+      const uncached = ['Person', 'Company', 'Address'].map((name) => {
+        clearSchemaCache(typeChecker);
+        return JSON.stringify(compile(load(name).type, typeChecker, options));
+      });
+      expect(cached).toEqual(uncached);
+      expect(JSON.parse(cached[1]!).$defs).toHaveProperty('Address');
+    });
   });
 });
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { watchTypes, type SchemaChange } from '../src/index';
+
+describe('watch', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ts-json-schema-'));
+    fs.writeFileSync(
+      path.join(dir, 'api.ts'),
+      `
+        import type { Id } from './id';
+        export interface User { id: Id; }
+        export interface Post { title: string; }
+        export interface Page<T> { items: T[]; }
+      `
+    );
+    fs.writeFileSync(path.join(dir, 'id.ts'), 'export type Id = number;');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should recompile only types affected by a change', async () => {
+    const out = path.join(dir, 'out');
+    const changes: SchemaChange[] = [];
+    const compiled: string[] = [];
+    const errors: Error[] = [];
+    let changed: () => void = () => {};
+
+    const watcher = watchTypes(path.join(dir, 'api.ts'), undefined, {
+      outDir: out,
+      mappers: [
+        (type) => {
+          const name = type.getSymbol()?.getName();
+          if (name === 'User' || name === 'Post') {
+            compiled.push(name);
+          }
+          return undefined;
+        },
+      ],
+      onChange: (change) => {
+        changes.push(change);
+        changed();
+      },
+      onError: (error) => errors.push(error),
+    });
+
+    try {
+      expect(changes.map((change) => change.name)).toEqual(['User', 'Post']);
+      // The generic Page has no schema of its own
+      expect(errors).toEqual([]);
+      const postFile = path.join(out, 'Post.schema.json');
+      const postWritten = fs.statSync(postFile).mtimeMs;
+
+      changes.length = 0;
+      compiled.length = 0;
+      const next = new Promise<void>((resolve) => (changed = resolve));
+      fs.writeFileSync(path.join(dir, 'id.ts'), 'export type Id = string;');
+      await next;
+
+      expect(changes).toEqual([
+        {
+          name: 'User',
+          schema: {
+            type: 'object',
+            properties: { id: { type: 'string' } },
+            required: ['id'],
+          },
+        },
+      ]);
+      expect(compiled).toEqual(['User']);
+      expect(fs.statSync(postFile).mtimeMs).toBe(postWritten);
+      expect(
+        JSON.parse(fs.readFileSync(path.join(out, 'User.schema.json'), 'utf8'))
+      ).toEqual(changes[0]!.schema);
+    } finally {
+      watcher.close();
+    }
+  }, 20000);
+});